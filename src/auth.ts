@@ -0,0 +1,134 @@
+/**
+ * Caller authentication for the HTTP server mode.
+ *
+ * Callers present a bearer token. Static tokens (BLACKSMITH_HTTP_TOKENS)
+ * act as the server's own Blacksmith session; entries in an API-key file
+ * (BLACKSMITH_API_KEYS_FILE) map each caller to their own session cookie
+ * and default org, so no caller can act with another's dashboard access.
+ */
+
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import { BlacksmithClient } from './client.js';
+import { createResponseCacheFromEnv } from './utils/cache.js';
+import { retryOptionsFromEnv } from './utils/retry.js';
+import { ConfigurationError } from './utils/errors.js';
+import { logger } from './utils/logger.js';
+
+// Tokens shorter than this are rejected as guessable
+const MIN_TOKEN_LENGTH = 16;
+
+const apiKeysFileSchema = z.object({
+  keys: z.array(
+    z.object({
+      name: z.string().min(1),
+      token: z.string().min(MIN_TOKEN_LENGTH),
+      session_cookie: z.string().min(1),
+      org: z.string().optional(),
+    })
+  ),
+});
+
+export interface Caller {
+  /** Caller name, for logs and session ownership. */
+  name: string;
+  /** The caller's own session cookie, or null to use the server's session. */
+  sessionCookie: string | null;
+  /** Default org for the caller's client. */
+  org?: string;
+}
+
+/**
+ * Caller used when authentication is disabled.
+ */
+export const ANONYMOUS_CALLER: Caller = { name: 'anonymous', sessionCookie: null };
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export class HttpAuth {
+  // Keyed by token hash, so lookups don't compare secrets byte by byte
+  private readonly callers = new Map<string, Caller>();
+
+  /**
+   * Register a token for a caller.
+   */
+  addToken(token: string, caller: Caller): void {
+    if (token.length < MIN_TOKEN_LENGTH) {
+      throw new ConfigurationError(
+        `Token for "${caller.name}" is too short (minimum ${MIN_TOKEN_LENGTH} characters).`
+      );
+    }
+    this.callers.set(hashToken(token), caller);
+  }
+
+  get size(): number {
+    return this.callers.size;
+  }
+
+  /**
+   * Resolve the caller for an Authorization header, or null if not authorized.
+   */
+  authenticate(header: string | undefined): Caller | null {
+    const match = header?.match(/^Bearer\s+(.+)$/i);
+    if (!match?.[1]) return null;
+    return this.callers.get(hashToken(match[1].trim())) ?? null;
+  }
+}
+
+/**
+ * Create a client acting with a caller's own session.
+ * Each caller gets a private response cache; the history store is not
+ * shared, since reads from it bypass Blacksmith's access checks.
+ */
+export function createClientForCaller(caller: Caller & { sessionCookie: string }): BlacksmithClient {
+  return new BlacksmithClient({
+    sessionCookie: caller.sessionCookie,
+    org: caller.org,
+    cache: createResponseCacheFromEnv(),
+    retry: retryOptionsFromEnv(),
+  });
+}
+
+/**
+ * Load caller authentication from environment variables.
+ * BLACKSMITH_HTTP_TOKENS: comma-separated static tokens using the server's session.
+ * BLACKSMITH_API_KEYS_FILE: JSON file mapping tokens to per-caller sessions.
+ * Returns null if neither is set.
+ */
+export function loadAuthFromEnv(): HttpAuth | null {
+  const tokens = process.env['BLACKSMITH_HTTP_TOKENS'];
+  const keysFile = process.env['BLACKSMITH_API_KEYS_FILE'];
+  if (!tokens && !keysFile) return null;
+
+  const auth = new HttpAuth();
+
+  const staticTokens = (tokens ?? '').split(',').map((t) => t.trim()).filter(Boolean);
+  staticTokens.forEach((token, i) => {
+    auth.addToken(token, { name: `token-${i + 1}`, sessionCookie: null });
+  });
+
+  if (keysFile) {
+    let parsed: z.infer<typeof apiKeysFileSchema>;
+    try {
+      parsed = apiKeysFileSchema.parse(JSON.parse(readFileSync(keysFile, 'utf-8')));
+    } catch (error) {
+      throw new ConfigurationError(
+        `Invalid API key file ${keysFile}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    for (const key of parsed.keys) {
+      auth.addToken(key.token, {
+        name: key.name,
+        sessionCookie: key.session_cookie,
+        org: key.org,
+      });
+    }
+  }
+
+  logger.info(`HTTP auth enabled for ${auth.size} token(s)`);
+  return auth;
+}
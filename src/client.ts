@@ -8,9 +8,19 @@
 import { logger } from './utils/logger.js';
 import {
   ApiError,
+  CancelledError,
   ConfigurationError,
+  NetworkError,
   SessionExpiredError,
 } from './utils/errors.js';
+import {
+  DEFAULT_RETRY_OPTIONS,
+  getRetryDelay,
+  isRetryableStatus,
+  retryOptionsFromEnv,
+  sleep,
+  type RetryOptions,
+} from './utils/retry.js';
 import type {
   OrgsResponse,
   OrgSettings,
@@ -23,36 +33,124 @@ import type {
   TestsResponse,
   LogSearchResponse,
   CacheStatsResponse,
-  CacheEntriesResponse,
+  CacheEntry,
 } from './types/blacksmith.js';
+import type { HistoryStore } from './utils/history.js';
+import {
+  DEFAULT_PAGE_SIZE,
+  collectPages,
+  paginate,
+  toPage,
+  type Page,
+  type PageRequest,
+} from './utils/pagination.js';
+import {
+  createResponseCacheFromEnv,
+  type ResponseCache,
+  type CacheStats,
+} from './utils/cache.js';
 
 const BASE_URL = 'https://dashboardbackend.blacksmith.sh/api/user/github/orgs';
 
+const LOGIN_AGAIN_MESSAGE =
+  'Blacksmith session expired. Log into app.blacksmith.sh in your browser again (or update BLACKSMITH_SESSION_COOKIE).';
+
 export interface BlacksmithClientConfig {
   sessionCookie: string;
   org?: string;
+  history?: HistoryStore | null;
+  cache?: ResponseCache | null;
+  retry?: Partial<RetryOptions>;
+  /** Look up a fresh session cookie after a 401, e.g. from the browser. */
+  refreshSessionCookie?: () => Promise<string | null>;
+}
+
+/**
+ * Filters for listing workflow runs.
+ */
+export interface ListRunsParams {
+  startDate: string;
+  endDate: string;
+  statuses?: string[];
+  repositories?: string[];
+  branches?: string[];
+  workflows?: string[];
+  users?: string[];
+}
+
+/**
+ * Session cookie state, shared by a client and every copy made from it so a
+ * refreshed cookie reaches all of them.
+ */
+interface SessionState {
+  cookie: string;
+  refreshing: Promise<boolean> | null;
 }
 
 export class BlacksmithClient {
-  private readonly sessionCookie: string;
+  private session: SessionState;
   private org: string | null;
+  /** Aborts in-flight requests and retry waits, when bound with withSignal. */
+  private signal: AbortSignal | null = null;
+
+  /**
+   * Local history store, if enabled. Every run, job and test result
+   * fetched through this client is recorded here.
+   */
+  readonly history: HistoryStore | null;
+
+  private readonly cache: ResponseCache | null;
+  private readonly retry: RetryOptions;
+  private readonly refreshSessionCookie: (() => Promise<string | null>) | null;
 
   constructor(config: BlacksmithClientConfig) {
-    this.sessionCookie = config.sessionCookie;
+    this.session = { cookie: config.sessionCookie, refreshing: null };
     this.org = config.org ?? null;
+    this.history = config.history ?? null;
+    this.cache = config.cache ?? null;
+    this.retry = { ...DEFAULT_RETRY_OPTIONS, ...config.retry };
+    this.refreshSessionCookie = config.refreshSessionCookie ?? null;
   }
 
   /**
-   * Set the current organization.
+   * Create a client for another organization that shares this client's
+   * session, response cache and history store.
    */
-  setOrg(org: string): void {
-    this.org = org;
+  withOrg(org: string): BlacksmithClient {
+    const client = this.copy();
+    client.org = org;
+    return client;
+  }
+
+  /**
+   * Create a client whose requests are aborted by `signal`, e.g. when the
+   * caller cancels a tool call. Shares everything else with this client.
+   * Pass null for a client that outlives the call.
+   */
+  withSignal(signal: AbortSignal | null): BlacksmithClient {
+    const client = this.copy();
+    client.signal = signal;
+    return client;
+  }
+
+  private copy(): BlacksmithClient {
+    const client = new BlacksmithClient({
+      sessionCookie: this.session.cookie,
+      org: this.org ?? undefined,
+      history: this.history,
+      cache: this.cache,
+      retry: this.retry,
+      refreshSessionCookie: this.refreshSessionCookie ?? undefined,
+    });
+    client.session = this.session;
+    client.signal = this.signal;
+    return client;
   }
 
   /**
    * Get the current organization, throwing if not set.
    */
-  private getOrg(): string {
+  getOrg(): string {
     if (!this.org) {
       throw new ConfigurationError(
         'No organization set. Use list_orgs to see available orgs, then set BLACKSMITH_ORG.'
@@ -63,40 +161,14 @@ export class BlacksmithClient {
 
   /**
    * Make an authenticated request to the Blacksmith API.
-   * Note: Cookie values from Chrome are already URL-encoded, send them raw.
    */
   private async request<T>(
     path: string,
     options: RequestInit = {}
   ): Promise<T> {
     const url = path.startsWith('http') ? path : `${BASE_URL}/${path}`;
-
-    logger.debug(`Requesting ${url}`);
-
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        // Laravel session cookie - send raw (already URL-encoded from Chrome)
-        Cookie: `blacksmith_session=${this.sessionCookie}`,
-        'Content-Type': 'application/json',
-        Accept: 'application/json',
-        Origin: 'https://app.blacksmith.sh',
-        Referer: 'https://app.blacksmith.sh/',
-        ...options.headers,
-      },
-    });
-
-    if (response.status === 401) {
-      throw new SessionExpiredError();
-    }
-
-    if (!response.ok) {
-      const text = await response.text();
-      logger.error(`API error: ${response.status} ${text}`);
-      throw new ApiError(`API request failed: ${response.status}`, response.status);
-    }
-
-    return response.json() as Promise<T>;
+    const text = await this.fetchText(url, options);
+    return JSON.parse(text) as T;
   }
 
   /**
@@ -118,33 +190,165 @@ export class BlacksmithClient {
     options: RequestInit = {}
   ): Promise<string> {
     const org = this.getOrg();
-    const url = `${BASE_URL}/${org}/${endpoint}`;
+    return this.fetchText(`${BASE_URL}/${org}/${endpoint}`, options);
+  }
 
-    logger.debug(`Requesting text: ${url}`);
+  /**
+   * Fetch a URL and return the response body, serving GETs from the cache when possible.
+   * Note: Cookie values from Chrome are already URL-encoded, send them raw.
+   */
+  private async fetchText(url: string, options: RequestInit): Promise<string> {
+    const cacheable = this.cache !== null && (options.method ?? 'GET') === 'GET';
+    if (cacheable) {
+      const cached = this.cache?.get(url);
+      if (cached !== undefined) return cached;
+    }
 
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        Cookie: `blacksmith_session=${this.sessionCookie}`,
-        'Content-Type': 'application/json',
-        Accept: 'application/json',
-        Origin: 'https://app.blacksmith.sh',
-        Referer: 'https://app.blacksmith.sh/',
-        ...options.headers,
-      },
-    });
+    const response = await this.fetchWithSessionRefresh(url, options);
+    const text = await this.readText(response);
+    if (cacheable) this.cache?.set(url, text);
+    return text;
+  }
+
+  /**
+   * Read a response body. The body streams under the request's signal, so an
+   * abort while reading surfaces as CancelledError like one during the fetch.
+   */
+  private async readText(response: Response): Promise<string> {
+    try {
+      return await response.text();
+    } catch (error) {
+      if (this.signal?.aborted) throw new CancelledError();
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch, and on a 401 pick up a fresh session cookie and retry once.
+   * Fails with SessionExpiredError only if no new cookie is found or the
+   * new cookie is rejected too.
+   */
+  private async fetchWithSessionRefresh(url: string, options: RequestInit): Promise<Response> {
+    const cookie = this.session.cookie;
+    try {
+      return await this.fetchWithRetry(url, options);
+    } catch (error) {
+      if (!(error instanceof SessionExpiredError) || !this.refreshSessionCookie) throw error;
+    }
+
+    if (!(await this.refreshSession(cookie))) {
+      throw new SessionExpiredError(LOGIN_AGAIN_MESSAGE);
+    }
 
-    if (response.status === 401) {
-      throw new SessionExpiredError();
+    try {
+      return await this.fetchWithRetry(url, options);
+    } catch (error) {
+      if (error instanceof SessionExpiredError) throw new SessionExpiredError(LOGIN_AGAIN_MESSAGE);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace a rejected session cookie with a fresh one.
+   * Concurrent 401s share a single lookup. Returns false if the cookie is unchanged.
+   */
+  private async refreshSession(rejectedCookie: string): Promise<boolean> {
+    // Another request already refreshed the session
+    if (this.session.cookie !== rejectedCookie) return true;
+
+    if (!this.session.refreshing) {
+      this.session.refreshing = (async () => {
+        const cookie = await this.refreshSessionCookie?.();
+        if (!cookie || cookie === rejectedCookie) {
+          logger.warn('Session expired and no new session cookie was found');
+          return false;
+        }
+        this.session.cookie = cookie;
+        logger.info('Session expired; picked up a fresh session cookie');
+        return true;
+      })().finally(() => {
+        this.session.refreshing = null;
+      });
     }
 
-    if (!response.ok) {
-      const text = await response.text();
+    return this.session.refreshing;
+  }
+
+  /**
+   * Fetch with retries on 429/5xx and network errors.
+   * Throws once retries are exhausted, recording how many were made, or
+   * CancelledError as soon as the client's signal aborts.
+   */
+  private async fetchWithRetry(url: string, options: RequestInit): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      logger.debug(`Requesting ${url}${attempt > 0 ? ` (retry ${attempt})` : ''}`);
+
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          ...options,
+          signal: this.signal,
+          headers: {
+            // Laravel session cookie - send raw (already URL-encoded from Chrome)
+            Cookie: `blacksmith_session=${this.session.cookie}`,
+            'Content-Type': 'application/json',
+            Accept: 'application/json',
+            Origin: 'https://app.blacksmith.sh',
+            Referer: 'https://app.blacksmith.sh/',
+            ...options.headers,
+          },
+        });
+      } catch (error) {
+        if (this.signal?.aborted) throw new CancelledError();
+        const message = error instanceof Error ? error.message : String(error);
+        if (attempt >= this.retry.maxRetries) {
+          throw new NetworkError(`API request failed: ${message}`, attempt);
+        }
+        const delay = getRetryDelay(attempt, this.retry);
+        logger.warn(`Network error (${message}), retrying in ${delay}ms`);
+        await sleep(delay, this.signal ?? undefined);
+        continue;
+      }
+
+      if (response.status === 401) {
+        throw new SessionExpiredError();
+      }
+
+      if (response.ok) {
+        return response;
+      }
+
+      const text = await this.readText(response);
+      if (isRetryableStatus(response.status) && attempt < this.retry.maxRetries) {
+        const delay = getRetryDelay(attempt, this.retry, response.headers.get('Retry-After'));
+        logger.warn(`API error: ${response.status}, retrying in ${delay}ms`);
+        await sleep(delay, this.signal ?? undefined);
+        continue;
+      }
+
       logger.error(`API error: ${response.status} ${text}`);
-      throw new ApiError(`API request failed: ${response.status}`, response.status);
+      throw new ApiError(
+        attempt > 0
+          ? `API request failed: ${response.status} after ${attempt} retries`
+          : `API request failed: ${response.status}`,
+        response.status,
+        attempt
+      );
     }
+  }
 
-    return response.text();
+  /**
+   * Get local response cache statistics, or null if caching is disabled.
+   */
+  getResponseCacheStats(): CacheStats | null {
+    return this.cache?.stats() ?? null;
+  }
+
+  /**
+   * Drop all locally cached API responses.
+   */
+  clearResponseCache(): { entries_cleared: number; bytes_cleared: number } {
+    return this.cache?.clear() ?? { entries_cleared: 0, bytes_cleared: 0 };
   }
 
   // ==================== Organization ====================
@@ -390,26 +594,53 @@ export class BlacksmithClient {
   }
 
   /**
-   * List workflow runs.
+   * List workflow runs matching the filters in the order the API returns
+   * them (newest first), streaming pages until `limit` runs are in hand or
+   * MAX_PAGES pages were read. Every caller picks its own limit; pass
+   * Infinity only when every run in the range is needed.
+   */
+  async listRuns(params: ListRunsParams & { limit: number; signal?: AbortSignal }): Promise<WorkflowRun[]> {
+    const { limit, signal, ...filters } = params;
+    const perPage = Math.min(limit, DEFAULT_PAGE_SIZE);
+    const { items, complete } = await collectPages(this.paginateRuns(filters, { perPage, signal }), limit);
+    if (!complete && limit === Infinity) {
+      logger.warn(`Run listing stopped after ${items.length} runs; narrow the date range or filters to see the rest`);
+    }
+    return items;
+  }
+
+  /**
+   * Stream pages of workflow runs, starting at `page` or a cursor from a
+   * previous page.
+   */
+  paginateRuns(
+    params: ListRunsParams,
+    options: { page?: number; cursor?: string | null; perPage?: number; signal?: AbortSignal } = {}
+  ): AsyncGenerator<Page<WorkflowRun>> {
+    return paginate((request) => this.listRunsPage(params, request), {
+      ...options,
+      key: (run) => String(run.id),
+    });
+  }
+
+  /**
+   * Fetch one page of workflow runs.
    * Note: API requires start_date and end_date in ISO 8601 format.
-   * Returns raw array of runs (not wrapped in {runs, total_count}).
+   * Returns raw array of runs (not wrapped in {runs, total_count}); `limit`
+   * is the page size.
    *
    * API uses array params: statuses[], repositories[], workflows[], branches[], users[]
    */
-  async listRuns(params: {
-    startDate: string;
-    endDate: string;
-    limit?: number;
-    statuses?: string[];
-    repositories?: string[];
-    branches?: string[];
-    workflows?: string[];
-    users?: string[];
-  }): Promise<WorkflowRun[]> {
+  async listRunsPage(
+    params: ListRunsParams,
+    request: PageRequest = { page: 1, perPage: DEFAULT_PAGE_SIZE, cursor: null }
+  ): Promise<Page<WorkflowRun>> {
     const searchParams = new URLSearchParams();
     searchParams.set('start_date', this.toISODate(params.startDate, false));
     searchParams.set('end_date', this.toISODate(params.endDate, true));
-    if (params.limit) searchParams.set('limit', String(params.limit));
+    searchParams.set('limit', String(request.perPage));
+    searchParams.set('page', String(request.page));
+    if (request.cursor) searchParams.set('cursor', request.cursor);
 
     // API uses array params with [] suffix
     if (params.statuses?.length) {
@@ -439,7 +670,9 @@ export class BlacksmithClient {
     }
 
     const endpoint = `metrics/actions/workflows/runs?${searchParams.toString()}`;
-    return this.orgRequest<WorkflowRun[]>(endpoint);
+    const page = toPage<WorkflowRun>(await this.orgRequest<unknown>(endpoint), 'runs', request);
+    this.history?.recordRuns(this.getOrg(), page.items);
+    return page;
   }
 
   /**
@@ -447,7 +680,9 @@ export class BlacksmithClient {
    * Returns full run detail including embedded jobs array.
    */
   async getRun(runId: string): Promise<RunDetailResponse> {
-    return this.orgRequest<RunDetailResponse>(`metrics/actions/workflows/runs/${runId}`);
+    const run = await this.orgRequest<RunDetailResponse>(`metrics/actions/workflows/runs/${runId}`);
+    this.history?.recordRunDetail(run);
+    return run;
   }
 
   /**
@@ -472,7 +707,9 @@ export class BlacksmithClient {
    * Get test results at the run level (no job_id needed).
    */
   async getRunTests(runId: string): Promise<TestsResponse> {
-    return this.orgRequest<TestsResponse>(`metrics/actions/workflows/runs/${runId}/tests`);
+    const response = await this.orgRequest<TestsResponse>(`metrics/actions/workflows/runs/${runId}/tests`);
+    this.history?.recordTests(runId, response.tests ?? [], { complete: true });
+    return response;
   }
 
   /**
@@ -560,7 +797,9 @@ export class BlacksmithClient {
       ? `metrics/actions/workflows/runs/${runId}/jobs/${jobId}/tests?status=${status}`
       : `metrics/actions/workflows/runs/${runId}/jobs/${jobId}/tests`;
 
-    return this.orgRequest<TestsResponse>(endpoint);
+    const response = await this.orgRequest<TestsResponse>(endpoint);
+    this.history?.recordTests(runId, response.tests ?? [], { jobId, complete: !status });
+    return response;
   }
 
   // ==================== Logs (Org-Level Search) ====================
@@ -630,39 +869,62 @@ export class BlacksmithClient {
   }
 
   /**
-   * Get detailed cache entries for a repository.
+   * Get one page of cache entries for a repository.
    * Note: API expects short repo name (e.g., "votion" not "Org/votion").
    */
   async getCacheEntries(
     repository: string,
-    params?: { page?: number; perPage?: number; sortBy?: string }
-  ): Promise<CacheEntriesResponse> {
+    params?: { page?: number; perPage?: number; cursor?: string | null; sortBy?: string }
+  ): Promise<Page<CacheEntry>> {
     // Extract short repo name if full name provided (API only accepts short name)
     const repoName = repository.includes('/') ? (repository.split('/').pop() ?? repository) : repository;
+    const request: PageRequest = {
+      page: params?.page ?? 1,
+      perPage: params?.perPage ?? 20,
+      cursor: params?.cursor ?? null,
+    };
 
     const searchParams = new URLSearchParams();
-    searchParams.set('page', String(params?.page ?? 1));
-    searchParams.set('per_page', String(params?.perPage ?? 20));
+    searchParams.set('page', String(request.page));
+    searchParams.set('per_page', String(request.perPage));
+    if (request.cursor) searchParams.set('cursor', request.cursor);
     searchParams.set('sort_by', params?.sortBy ?? 'lastHitTime');
     searchParams.set('sort_direction', 'desc');
 
-    return this.orgRequest<CacheEntriesResponse>(
+    // API returns {data: CacheEntry[]}
+    const response = await this.orgRequest<unknown>(
       `metrics/cache/repositories/${repoName}?${searchParams.toString()}`
     );
+    return toPage<CacheEntry>(response, 'data', request);
+  }
+
+  /**
+   * Stream pages of cache entries for a repository.
+   */
+  paginateCacheEntries(
+    repository: string,
+    options: { page?: number; cursor?: string | null; perPage?: number; sortBy?: string; signal?: AbortSignal } = {}
+  ): AsyncGenerator<Page<CacheEntry>> {
+    return paginate(
+      (request) => this.getCacheEntries(repository, { ...request, sortBy: options.sortBy }),
+      { ...options, key: (entry) => `${entry.key}:${entry.version}:${entry.scope}` }
+    );
   }
 }
 
 /**
- * Create a Blacksmith client from environment variables or Chrome.
- * Tries env var first, then auto-extracts from Chrome if logged in.
+ * Create a Blacksmith client from environment variables or the browser.
+ * Tries env var first, then auto-extracts from the browser if logged in.
  */
 export async function createClientFromEnv(): Promise<BlacksmithClient> {
   // Try env var first
   let sessionCookie = process.env['BLACKSMITH_SESSION_COOKIE'];
+  const fromBrowser = !sessionCookie;
+
+  const { getSessionCookie } = await import('./utils/cookies.js');
 
-  // If no env var, try to extract from Chrome
+  // If no env var, try to extract from the browser
   if (!sessionCookie) {
-    const { getSessionCookie } = await import('./utils/cookies.js');
     const extracted = await getSessionCookie();
     if (extracted) sessionCookie = extracted;
   }
@@ -670,13 +932,21 @@ export async function createClientFromEnv(): Promise<BlacksmithClient> {
   if (!sessionCookie) {
     throw new ConfigurationError(
       'Could not find Blacksmith session. Either:\n' +
-        '1. Log into app.blacksmith.sh in Chrome, or\n' +
+        '1. Log into app.blacksmith.sh in Chrome, Brave, Edge, Arc or Firefox, or\n' +
         '2. Set BLACKSMITH_SESSION_COOKIE environment variable'
     );
   }
 
+  const { createHistoryStoreFromEnv } = await import('./utils/history.js');
+
   return new BlacksmithClient({
     sessionCookie,
     org: process.env['BLACKSMITH_ORG'],
+    history: createHistoryStoreFromEnv(),
+    cache: createResponseCacheFromEnv(),
+    retry: retryOptionsFromEnv(),
+    // The browser may hold a newer cookie than the one we started with.
+    // A cookie set in the environment is never swapped for a browser one.
+    ...(fromBrowser && { refreshSessionCookie: getSessionCookie }),
   });
 }
@@ -0,0 +1,77 @@
+/**
+ * `blacksmith-mcp doctor`: print connection diagnostics for humans.
+ */
+
+import { diagnoseConnection } from './tools/diagnostics.js';
+
+const MARKS = { ok: '✓', warning: '!', error: '✗' } as const;
+
+function line(mark: keyof typeof MARKS, text: string): string {
+  return `  ${MARKS[mark]} ${text}`;
+}
+
+/**
+ * Run diagnostics and print a report. Returns the process exit code.
+ */
+export async function runDoctor(): Promise<number> {
+  const report = await diagnoseConnection();
+  const { cookie, api, org } = report;
+  const out: string[] = ['Blacksmith MCP doctor', ''];
+
+  out.push('Session cookie');
+  if (!cookie.found) {
+    out.push(line('error', 'No session cookie found'));
+  } else if (cookie.source === 'browser') {
+    out.push(line('ok', `${cookie.name} from ${cookie.browser} (${cookie.profile})`));
+    out.push(`    ${cookie.database}`);
+    out.push(line('ok', `Decryption: ${cookie.decryption}`));
+  } else {
+    out.push(line('ok', `${cookie.name} from ${cookie.source}`));
+  }
+  if (cookie.decryption === 'failed') {
+    out.push(line('error', 'Decryption failed'));
+  }
+  if (cookie.expires_at) {
+    const mark = cookie.expires_in_hours !== null && cookie.expires_in_hours < 24 ? 'warning' : 'ok';
+    out.push(line(mark, `Expires ${cookie.expires_at} (in ${cookie.expires_in_hours}h)`));
+  }
+  for (const source of cookie.sources_searched) {
+    const detail = source.error
+      ? `error: ${source.error}`
+      : `${source.cookies_found} cookie(s)${source.undecryptable ? `, ${source.undecryptable} undecryptable` : ''}`;
+    out.push(`    searched ${source.browser} (${source.profile}): ${detail}`);
+  }
+
+  out.push('', 'Blacksmith API');
+  if (!api) {
+    out.push(line('error', 'Skipped (no session cookie)'));
+  } else if (api.ok) {
+    out.push(line('ok', `listOrgs succeeded in ${api.latency_ms}ms`));
+    out.push(line('ok', `Visible orgs: ${api.visible_orgs.join(', ') || '(none)'}`));
+  } else {
+    out.push(line('error', `listOrgs failed after ${api.latency_ms}ms: ${api.error?.message}`));
+  }
+
+  out.push('', 'Organization');
+  if (!org.configured) {
+    out.push(line('warning', 'BLACKSMITH_ORG is not set'));
+  } else if (org.matches === false) {
+    out.push(line('error', `BLACKSMITH_ORG=${org.configured} is not a visible org`));
+  } else {
+    out.push(line(org.matches ? 'ok' : 'warning', `BLACKSMITH_ORG=${org.configured}`));
+  }
+
+  if (report.problems?.length) {
+    out.push('', 'Problems');
+    out.push(...report.problems.map((problem) => line('error', problem)));
+  }
+  if ('warnings' in report && report.warnings?.length) {
+    out.push('', 'Warnings');
+    out.push(...report.warnings.map((warning) => line('warning', warning)));
+  }
+
+  out.push('', `Status: ${report.status}`);
+  process.stdout.write(`${out.join('\n')}\n`);
+
+  return report.status === 'error' ? 1 : 0;
+}
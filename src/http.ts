@@ -0,0 +1,354 @@
+/**
+ * HTTP transport for the Blacksmith MCP server.
+ *
+ * Serves the MCP server over Streamable HTTP at /mcp, with the legacy
+ * HTTP+SSE transport at /sse and /messages for older clients. Each MCP
+ * session gets its own Server instance, bound to the caller that opened it.
+ * Callers with their own Blacksmith session get their own client; everyone
+ * else shares the server's client.
+ */
+
+import { randomUUID } from 'crypto';
+import { createServer as createHttpServer, type IncomingMessage, type Server as HttpServer, type ServerResponse } from 'http';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { BlacksmithClient } from './client.js';
+import { createServer, createClientLoader } from './server.js';
+import { ANONYMOUS_CALLER, createClientForCaller, type Caller, type HttpAuth } from './auth.js';
+import { ConfigurationError } from './utils/errors.js';
+import { logger } from './utils/logger.js';
+
+export const DEFAULT_HTTP_PORT = 8787;
+export const DEFAULT_HTTP_HOST = '127.0.0.1';
+
+// Largest JSON-RPC request body accepted
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+// How long shutdown waits for open sessions to close before exiting anyway
+const SHUTDOWN_TIMEOUT_MS = 10_000;
+
+// Streamable HTTP sessions with no requests for this long are closed
+const SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const SESSION_SWEEP_INTERVAL_MS = 60 * 1000;
+
+const LOOPBACK_HOSTS = new Set(['127.0.0.1', '::1', 'localhost']);
+
+export interface HttpServerOptions {
+  port: number;
+  host: string;
+  /** Caller authentication; null serves everyone as the server's own session. */
+  auth: HttpAuth | null;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  caller: Caller;
+  lastActiveAt: number;
+}
+
+class HttpError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode: number
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * Read and parse a JSON request body.
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError('Request body too large', 413);
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+  } catch {
+    throw new HttpError('Invalid JSON body', 400);
+  }
+}
+
+/**
+ * Get the hostname from a Host header or URL host, without port or IPv6 brackets.
+ */
+function hostnameOf(host: string): string {
+  try {
+    return new URL(`http://${host}`).hostname.replace(/^\[(.*)\]$/, '$1');
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Check that a request to a loopback-bound server names a loopback host and,
+ * if it comes from a browser, a loopback origin. Guards against DNS rebinding,
+ * where a web page resolves its own domain to 127.0.0.1 to reach this server.
+ */
+function isLoopbackRequest(req: IncomingMessage): boolean {
+  if (!LOOPBACK_HOSTS.has(hostnameOf(req.headers.host ?? ''))) return false;
+
+  const origin = req.headers.origin;
+  if (origin === undefined) return true;
+  try {
+    return LOOPBACK_HOSTS.has(hostnameOf(new URL(origin).host));
+  } catch {
+    return false;
+  }
+}
+
+function sendJson(res: ServerResponse, statusCode: number, body: unknown): void {
+  res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Send a JSON-RPC error for requests rejected before reaching a transport.
+ */
+function sendJsonRpcError(res: ServerResponse, statusCode: number, message: string): void {
+  sendJson(res, statusCode, {
+    jsonrpc: '2.0',
+    error: { code: -32000, message },
+    id: null,
+  });
+}
+
+/**
+ * Start the MCP server over HTTP.
+ * Resolves once listening; shuts down gracefully on SIGINT/SIGTERM.
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<HttpServer> {
+  if (!options.auth && !LOOPBACK_HOSTS.has(options.host)) {
+    throw new ConfigurationError(
+      `Refusing to listen on ${options.host} without authentication. ` +
+        'Set BLACKSMITH_HTTP_TOKENS or BLACKSMITH_API_KEYS_FILE, or bind to 127.0.0.1.'
+    );
+  }
+
+  const getServerClient = createClientLoader();
+  const callerClients = new Map<Caller, BlacksmithClient>();
+  const sessions = new Map<string, Session>();
+  const bindsLoopback = LOOPBACK_HOSTS.has(options.host);
+  let shuttingDown = false;
+
+  /**
+   * Get the client for a caller: their own session if they have one,
+   * otherwise the server's.
+   */
+  function getClientLoader(caller: Caller): () => Promise<BlacksmithClient> {
+    const { sessionCookie } = caller;
+    if (sessionCookie === null) return getServerClient;
+
+    return async () => {
+      let client = callerClients.get(caller);
+      if (!client) {
+        client = createClientForCaller({ ...caller, sessionCookie });
+        callerClients.set(caller, client);
+      }
+      return client;
+    };
+  }
+
+  /**
+   * Find a session, only if it belongs to the caller.
+   */
+  function getSession(sessionId: string, caller: Caller): Session | undefined {
+    const session = sessions.get(sessionId);
+    if (session?.caller !== caller) return undefined;
+    session.lastActiveAt = Date.now();
+    return session;
+  }
+
+  /**
+   * Close Streamable HTTP sessions whose client went away without ending them.
+   * SSE sessions end on their own when the stream disconnects.
+   */
+  function closeIdleSessions(): void {
+    const cutoff = Date.now() - SESSION_IDLE_TIMEOUT_MS;
+    for (const [id, session] of sessions) {
+      if (!(session.transport instanceof StreamableHTTPServerTransport) || session.lastActiveAt > cutoff) continue;
+      logger.info(`Closing idle MCP session: ${id}`);
+      sessions.delete(id);
+      session.transport.close().catch((error: unknown) => logger.warn(`Failed to close session ${id}`, error));
+    }
+  }
+
+  /**
+   * Streamable HTTP: POST for requests, GET for the server-to-client stream,
+   * DELETE to end a session.
+   */
+  async function handleMcp(req: IncomingMessage, res: ServerResponse, caller: Caller): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'];
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    if (typeof sessionId === 'string') {
+      const transport = getSession(sessionId, caller)?.transport;
+      if (!(transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, 404, 'Session not found');
+        return;
+      }
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { transport, caller, lastActiveAt: Date.now() });
+        logger.info(`MCP session started: ${id} (${caller.name})`);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+        logger.info(`MCP session closed: ${transport.sessionId}`);
+      }
+    };
+
+    await createServer({ getClient: getClientLoader(caller), remote: true }).connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  /**
+   * Legacy HTTP+SSE: GET /sse opens the stream, POST /messages sends requests.
+   */
+  async function handleSse(res: ServerResponse, caller: Caller): Promise<void> {
+    const transport = new SSEServerTransport('/messages', res);
+    sessions.set(transport.sessionId, { transport, caller, lastActiveAt: Date.now() });
+    logger.info(`SSE session started: ${transport.sessionId} (${caller.name})`);
+
+    res.on('close', () => {
+      sessions.delete(transport.sessionId);
+      logger.info(`SSE session closed: ${transport.sessionId}`);
+    });
+
+    await createServer({ getClient: getClientLoader(caller), remote: true }).connect(transport);
+  }
+
+  async function handleSseMessage(
+    req: IncomingMessage,
+    res: ServerResponse,
+    url: URL,
+    caller: Caller
+  ): Promise<void> {
+    const transport = getSession(url.searchParams.get('sessionId') ?? '', caller)?.transport;
+    if (!(transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, 'Session not found');
+      return;
+    }
+    await transport.handlePostMessage(req, res, await readJsonBody(req));
+  }
+
+  async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+
+    if (url.pathname === '/health' && req.method === 'GET') {
+      sendJson(res, shuttingDown ? 503 : 200, {
+        status: shuttingDown ? 'shutting_down' : 'ok',
+        sessions: sessions.size,
+      });
+      return;
+    }
+
+    if (shuttingDown) {
+      sendJsonRpcError(res, 503, 'Server is shutting down');
+      return;
+    }
+
+    const isMcpPath = ['/mcp', '/sse', '/messages'].includes(url.pathname);
+    if (!isMcpPath) {
+      sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    if (bindsLoopback && !isLoopbackRequest(req)) {
+      sendJsonRpcError(res, 403, 'Forbidden: Host and Origin must be a loopback address');
+      return;
+    }
+
+    const caller = options.auth ? options.auth.authenticate(req.headers.authorization) : ANONYMOUS_CALLER;
+    if (!caller) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendJsonRpcError(res, 401, 'Unauthorized');
+      return;
+    }
+
+    if (url.pathname === '/mcp') {
+      await handleMcp(req, res, caller);
+    } else if (url.pathname === '/sse' && req.method === 'GET') {
+      await handleSse(res, caller);
+    } else if (url.pathname === '/messages' && req.method === 'POST') {
+      await handleSseMessage(req, res, url, caller);
+    } else {
+      sendJson(res, 405, { error: 'Method not allowed' });
+    }
+  }
+
+  const httpServer = createHttpServer((req, res) => {
+    handle(req, res).catch((error: unknown) => {
+      logger.error(`HTTP ${req.method} ${req.url} failed`, error);
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      if (error instanceof HttpError) {
+        sendJsonRpcError(res, error.statusCode, error.message);
+      } else {
+        sendJsonRpcError(res, 500, 'Internal server error');
+      }
+    });
+  });
+
+  async function shutdown(signal: string): Promise<void> {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    logger.info(`Received ${signal}, shutting down`);
+
+    const timer = setTimeout(() => {
+      logger.warn('Shutdown timed out, exiting');
+      process.exit(1);
+    }, SHUTDOWN_TIMEOUT_MS);
+    timer.unref();
+
+    clearInterval(sweeper);
+
+    // Stop accepting connections, then close every open session
+    const closed = new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    await Promise.allSettled([...sessions.values()].map(({ transport }) => transport.close()));
+    sessions.clear();
+    httpServer.closeIdleConnections();
+    await closed;
+
+    logger.info('Blacksmith MCP server stopped');
+    process.exit(0);
+  }
+
+  const sweeper = setInterval(closeIdleSessions, SESSION_SWEEP_INTERVAL_MS);
+  sweeper.unref();
+
+  process.once('SIGINT', () => void shutdown('SIGINT'));
+  process.once('SIGTERM', () => void shutdown('SIGTERM'));
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => resolve());
+  });
+
+  logger.info(`Blacksmith MCP server listening on http://${options.host}:${options.port}/mcp`);
+  return httpServer;
+}
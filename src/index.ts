@@ -3,15 +3,55 @@
  *
  * An MCP server for Blacksmith CI analytics.
  * https://github.com/grahamnotgrant/blacksmith-mcp
+ *
+ * Usage:
+ *   blacksmith-mcp                                  # stdio (default)
+ *   blacksmith-mcp --http [--port 8787] [--host 127.0.0.1]
+ *   blacksmith-mcp doctor                           # diagnose the connection
  */
 
+import { parseArgs } from 'util';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { createServer } from './server.js';
+import { startHttpServer, DEFAULT_HTTP_HOST, DEFAULT_HTTP_PORT } from './http.js';
+import { loadAuthFromEnv } from './auth.js';
+import { runDoctor } from './doctor.js';
 import { logger } from './utils/logger.js';
 
 async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      http: { type: 'boolean', default: false },
+      port: { type: 'string' },
+      host: { type: 'string' },
+    },
+  });
+
+  if (positionals[0] === 'doctor') {
+    process.exitCode = await runDoctor();
+    return;
+  }
+  if (positionals.length > 0) {
+    throw new Error(`Unknown command: ${positionals[0]}`);
+  }
+
   logger.info('Starting Blacksmith MCP server');
 
+  if (values.http) {
+    const port = values.port ? parseInt(values.port, 10) : DEFAULT_HTTP_PORT;
+    if (isNaN(port) || port < 0 || port > 65535) {
+      throw new Error(`Invalid port: ${values.port}`);
+    }
+
+    await startHttpServer({
+      port,
+      host: values.host ?? DEFAULT_HTTP_HOST,
+      auth: loadAuthFromEnv(),
+    });
+    return;
+  }
+
   const server = createServer();
   const transport = new StdioServerTransport();
 
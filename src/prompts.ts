@@ -0,0 +1,128 @@
+/**
+ * MCP prompt templates for common CI investigations.
+ *
+ * Each prompt spells out which tools to chain and what to report, so
+ * every investigation follows the same steps.
+ */
+
+import {
+  ErrorCode,
+  McpError,
+  type GetPromptResult,
+  type Prompt,
+} from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Prompt definition with its template.
+ */
+interface PromptDefinition extends Prompt {
+  template: (args: Record<string, string>) => string;
+}
+
+/**
+ * All available prompts.
+ */
+const prompts: PromptDefinition[] = [
+  {
+    name: 'triage_failing_run',
+    description: 'Find out why a workflow run failed and whether it is a regression.',
+    arguments: [
+      { name: 'run_id', description: 'GitHub Actions workflow run ID', required: true },
+    ],
+    template: ({ run_id }) => `Triage the failing Blacksmith workflow run ${run_id}.
+
+1. Call \`get_run\` with run_id "${run_id}" to list its jobs and see which ones failed.
+2. For each failed job, call \`get_failures_by_pattern\` to group its test failures by error pattern. If a job has no test results, call \`get_job_logs\` and look for the first error instead.
+3. For each failed job, call \`compare_test_runs\` with the job name to separate new failures (regressions) from failures that were already present in the previous run.
+4. For any failing test that is not new, call \`get_test_history\` to check whether it fails intermittently.
+
+Report:
+- Which jobs failed and the root-cause error pattern for each.
+- Which failures are regressions introduced by this run, and which are pre-existing or flaky.
+- The most likely fix or next step for each regression.`,
+  },
+  {
+    name: 'weekly_ci_health_report',
+    description: 'Summarise CI reliability, speed and cost over the last week.',
+    arguments: [
+      { name: 'job_name', description: 'Main test job to check for flaky tests and trends (optional)' },
+    ],
+    template: ({ job_name }) => `Write a weekly CI health report for this Blacksmith organization covering the last 7 days.
+
+1. Call \`get_jobs_summary\` for total jobs, duration and failure rate, and \`get_jobs_daily\` for the day-by-day trend.
+2. Call \`get_jobs_by_dimension\` with dimension "workflow", then with dimension "repository", to find where failures and minutes are concentrated.
+3. Call \`list_runs\` with status "failure" and pick out the workflows and branches that fail most often.
+${job_name
+  ? `4. Call \`get_flaky_tests\` and \`get_trends\` (metrics "duration" and "failure_rate") for job "${job_name}".`
+  : '4. Call `get_flaky_tests` and `get_trends` (metrics "duration" and "failure_rate") without a job_name to cover every job with test results.'}
+5. Call \`get_usage_summary\` to show minutes used against the free tier.
+
+Report as a short document with sections: Overview (headline numbers versus the previous week where available), Reliability (top failing workflows and flaky tests), Speed (duration trends), Cost (minutes used) and Recommended actions (at most five, most impactful first).`,
+  },
+  {
+    name: 'investigate_flaky_job',
+    description: 'Find the flaky tests in a job and decide which to fix or quarantine first.',
+    arguments: [
+      { name: 'job_name', description: 'Job name (e.g., "Test (Blacksmith/Self-Hosted)")', required: true },
+      { name: 'days', description: 'Number of days to analyze (default: 14)' },
+    ],
+    template: ({ job_name, days }) => `Investigate flakiness in the job "${job_name}" over the last ${days ?? '14'} days.
+
+1. Call \`get_flaky_tests\` with job_name "${job_name}" and days ${days ?? '14'} to list tests that both pass and fail.
+2. For the three flakiest tests, call \`get_test_history\` to see when they started flaking and how often they fail.
+3. For a recent run where one of them failed, call \`get_failures_by_pattern\` to capture the error messages.
+4. Call \`get_trends\` with metric "failure_rate" for the job to see whether flakiness is getting better or worse.
+
+Report:
+- Each flaky test with its failure rate, when it started and its typical error.
+- Likely causes (timing, ordering, shared state, external services) based on the errors.
+- Which tests to fix first and which are candidates for quarantine.`,
+  },
+  {
+    name: 'explain_monthly_bill',
+    description: "Explain what is driving this month's Blacksmith bill.",
+    arguments: [],
+    template: () => `Explain this month's Blacksmith bill for this organization.
+
+1. Call \`get_invoice_amount\` for the current billing period and amount so far.
+2. Call \`get_usage_summary\` for billable minutes versus the free tier.
+3. Call \`get_jobs_by_dimension\` with dimension "runner_type", then "repository", then "workflow", from the start of the billing period to today, to see where the minutes go.
+4. Call \`get_runner_types\` to see which runner sizes are in use.
+5. For the workflow using the most minutes, call \`recommend_runner_sizes\` to check whether its jobs are on the right runner size.
+
+Report:
+- The invoice so far and what it is likely to be at the end of the period.
+- The top repositories, workflows and runner types by minutes.
+- Concrete ways to reduce the bill (runner right-sizing, failing or redundant workflows), each with an estimated saving.`,
+  },
+];
+
+export function getPromptDefinitions(): Prompt[] {
+  return prompts.map(({ template: _template, ...prompt }) => prompt);
+}
+
+/**
+ * Render a prompt by name.
+ */
+export function getPrompt(name: string, args: Record<string, string> = {}): GetPromptResult {
+  const prompt = prompts.find((p) => p.name === name);
+  if (!prompt) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+
+  for (const arg of prompt.arguments ?? []) {
+    if (arg.required && !args[arg.name]) {
+      throw new McpError(ErrorCode.InvalidParams, `Missing required argument: ${arg.name}`);
+    }
+  }
+
+  return {
+    description: prompt.description,
+    messages: [
+      {
+        role: 'user',
+        content: { type: 'text', text: prompt.template(args) },
+      },
+    ],
+  };
+}
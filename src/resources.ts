@@ -0,0 +1,176 @@
+/**
+ * MCP resources for Blacksmith.
+ *
+ * Exposes runs, job logs, org settings and cache entries as readable
+ * resources so clients can attach them as context without a tool call.
+ */
+
+import {
+  ErrorCode,
+  McpError,
+  type Resource,
+  type ResourceTemplate,
+  type ReadResourceResult,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { BlacksmithClient } from './client.js';
+import { ConfigurationError } from './utils/errors.js';
+import { getDefaultDateRange } from './utils/dates.js';
+import { getRun } from './tools/runs.js';
+import { getOrgSettings } from './tools/org.js';
+import { getCacheEntries } from './tools/usage.js';
+
+const SCHEME = 'blacksmith://';
+
+// How far back, and how many, failing runs to list as resources
+const RECENT_FAILURES_DAYS = 7;
+const RECENT_FAILURES_LIMIT = 20;
+
+/**
+ * Resource URI templates, as advertised to clients.
+ */
+const templates: ResourceTemplate[] = [
+  {
+    uriTemplate: 'blacksmith://org/{org}/settings',
+    name: 'Organization settings',
+    description: 'Settings and enabled features for a Blacksmith organization.',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'blacksmith://runs/{run_id}',
+    name: 'Workflow run',
+    description: 'Workflow run details including all jobs, as returned by get_run.',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'blacksmith://runs/{run_id}/jobs/{job_id}/logs',
+    name: 'Job logs',
+    description: 'Raw log output for a job.',
+    mimeType: 'text/plain',
+  },
+  {
+    uriTemplate: 'blacksmith://cache/{repo}',
+    name: 'Repository cache entries',
+    description: 'Cache entries for a repository, most recently hit first.',
+    mimeType: 'application/json',
+  },
+];
+
+/**
+ * Resource readers, keyed by URI pattern. First match wins.
+ */
+const readers: {
+  pattern: RegExp;
+  mimeType: string;
+  read: (client: BlacksmithClient, params: string[]) => Promise<unknown>;
+}[] = [
+  {
+    pattern: /^orgs$/,
+    mimeType: 'application/json',
+    read: (client) => client.listOrgs(),
+  },
+  {
+    pattern: /^org\/([^/]+)\/settings$/,
+    mimeType: 'application/json',
+    read: (client, [org]) => getOrgSettings(client.withOrg(org ?? '')),
+  },
+  {
+    pattern: /^runs\/(\d+)$/,
+    mimeType: 'application/json',
+    read: (client, [runId]) => getRun(client, { run_id: runId ?? '' }),
+  },
+  {
+    pattern: /^runs\/(\d+)\/jobs\/(\d+)\/logs$/,
+    mimeType: 'text/plain',
+    read: async (client, [, jobId]) => (await client.getJobLogs(jobId ?? '')).logs,
+  },
+  {
+    pattern: /^cache\/([^/]+)$/,
+    mimeType: 'application/json',
+    read: (client, [repo]) => getCacheEntries(client, { repository: repo ?? '' }),
+  },
+];
+
+export function getResourceTemplates(): ResourceTemplate[] {
+  return templates;
+}
+
+/**
+ * List concrete resources: the org list, current org settings and
+ * recent failing runs.
+ */
+export async function listResources(client: BlacksmithClient): Promise<Resource[]> {
+  const resources: Resource[] = [
+    {
+      uri: 'blacksmith://orgs',
+      name: 'Organizations',
+      description: 'Blacksmith organizations visible to this session.',
+      mimeType: 'application/json',
+    },
+  ];
+
+  let org: string;
+  try {
+    org = client.getOrg();
+  } catch (error) {
+    // Without an org only the org list is available
+    if (error instanceof ConfigurationError) return resources;
+    throw error;
+  }
+
+  resources.push({
+    uri: `blacksmith://org/${encodeURIComponent(org)}/settings`,
+    name: `${org} settings`,
+    mimeType: 'application/json',
+  });
+
+  const { startDate, endDate } = getDefaultDateRange(RECENT_FAILURES_DAYS);
+  const runs = await client.listRuns({ startDate, endDate, statuses: ['failure'], limit: RECENT_FAILURES_LIMIT });
+
+  for (const run of runs) {
+    const workflow = run.workflow_name ?? run.name;
+    const branch = run.branch_name ?? run.head_branch;
+    resources.push({
+      uri: `blacksmith://runs/${run.id}`,
+      name: `Failed: ${workflow}${branch ? ` on ${branch}` : ''}`,
+      description: [run.repository_name ?? run.repository?.full_name, run.title, run.created_at]
+        .filter(Boolean)
+        .join(' | '),
+      mimeType: 'application/json',
+    });
+  }
+
+  return resources;
+}
+
+/**
+ * Read a resource by URI.
+ */
+export async function readResource(
+  client: BlacksmithClient,
+  uri: string
+): Promise<ReadResourceResult> {
+  if (!uri.startsWith(SCHEME)) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+  }
+
+  const path = uri.slice(SCHEME.length).replace(/\/$/, '');
+
+  for (const reader of readers) {
+    const match = path.match(reader.pattern);
+    if (!match) continue;
+
+    const params = match.slice(1).map((param) => decodeURIComponent(param));
+    const data = await reader.read(client, params);
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: reader.mimeType,
+          text: typeof data === 'string' ? data : JSON.stringify(data, null, 2),
+        },
+      ],
+    };
+  }
+
+  throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+}
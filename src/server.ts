@@ -6,13 +6,60 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import { logger } from './utils/logger.js';
 import { formatErrorResponse } from './utils/errors.js';
 import { createClientFromEnv, type BlacksmithClient } from './client.js';
 import { getToolDefinitions, executeTool } from './tools/index.js';
+import type { ToolContext } from './tools/context.js';
+import { getResourceTemplates, listResources, readResource } from './resources.js';
+import { getPromptDefinitions, getPrompt } from './prompts.js';
 
-export function createServer(): Server {
+/**
+ * Create a lazily initialized Blacksmith client loader.
+ * Handles async cookie extraction; concurrent callers share one client.
+ */
+export function createClientLoader(): () => Promise<BlacksmithClient> {
+  let client: BlacksmithClient | null = null;
+  let clientPromise: Promise<BlacksmithClient> | null = null;
+
+  return async function getClient(): Promise<BlacksmithClient> {
+    if (client) {
+      return client;
+    }
+
+    if (!clientPromise) {
+      clientPromise = createClientFromEnv().then(
+        (c) => {
+          client = c;
+          logger.info('Blacksmith client initialized');
+          return c;
+        },
+        (error: unknown) => {
+          // Don't cache the failure: the user may log in and try again
+          clientPromise = null;
+          throw error;
+        }
+      );
+    }
+
+    return clientPromise;
+  };
+}
+
+export interface ServerOptions {
+  /** Resolve the Blacksmith client. Defaults to a client created from the environment. */
+  getClient?: () => Promise<BlacksmithClient>;
+  /** Serving callers on other machines: hide tools that inspect this one. */
+  remote?: boolean;
+}
+
+export function createServer(options: ServerOptions = {}): Server {
   const server = new Server(
     {
       name: 'blacksmith-mcp',
@@ -21,49 +68,55 @@ export function createServer(): Server {
     {
       capabilities: {
         tools: {},
+        resources: {},
+        prompts: {},
       },
     }
   );
 
-  let client: BlacksmithClient | null = null;
-  let clientPromise: Promise<BlacksmithClient> | null = null;
+  const getServerClient = options.getClient ?? createClientLoader();
 
-  /**
-   * Get or create the Blacksmith client.
-   * Lazily initialized and handles async cookie extraction.
-   */
-  async function getClient(): Promise<BlacksmithClient> {
-    if (client) {
-      return client;
-    }
-
-    if (!clientPromise) {
-      clientPromise = createClientFromEnv().then((c) => {
-        client = c;
-        logger.info('Blacksmith client initialized');
-        return c;
-      });
-    }
-
-    return clientPromise;
-  }
+  // switch_org replaces the client for this session only; the shared one is never changed
+  let sessionClient: BlacksmithClient | null = null;
+  const getClient = async () => sessionClient ?? getServerClient();
 
   // List available tools
   server.setRequestHandler(ListToolsRequestSchema, async () => {
     logger.debug('Listing tools');
     return {
-      tools: getToolDefinitions(),
+      tools: getToolDefinitions({ remote: options.remote }),
     };
   });
 
   // Execute tool
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
     const { name, arguments: args } = request.params;
     logger.info(`Executing tool: ${name}`, args);
 
+    // Progress notifications are only sent if the client asked for them
+    const progressToken = request.params._meta?.progressToken;
+    const context: ToolContext = {
+      signal: extra.signal,
+      remote: options.remote,
+      setSessionClient: (client) => {
+        // The session client outlives this call, so it must not be aborted with it
+        sessionClient = client.withSignal(null);
+      },
+      reportProgress:
+        progressToken === undefined
+          ? undefined
+          : (progress, total, message) => {
+              extra
+                .sendNotification({
+                  method: 'notifications/progress',
+                  params: { progressToken, progress, total, message },
+                })
+                .catch((error: unknown) => logger.debug('Failed to send progress notification', error));
+            },
+    };
+
     try {
-      const clientInstance = await getClient();
-      const result = await executeTool(clientInstance, name, args ?? {});
+      const result = await executeTool(getClient, name, args ?? {}, context);
       return {
         content: [
           {
@@ -86,5 +139,41 @@ export function createServer(): Server {
     }
   });
 
+  // List resources (org list, settings, recent failing runs)
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    logger.debug('Listing resources');
+    return {
+      resources: await listResources(await getClient()),
+    };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return {
+      resourceTemplates: getResourceTemplates(),
+    };
+  });
+
+  // Read resource
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    logger.info(`Reading resource: ${uri}`);
+    return readResource(await getClient(), uri);
+  });
+
+  // List prompts
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    logger.debug('Listing prompts');
+    return {
+      prompts: getPromptDefinitions(),
+    };
+  });
+
+  // Get prompt
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+    logger.info(`Getting prompt: ${name}`, args);
+    return getPrompt(name, args);
+  });
+
   return server;
 }
@@ -0,0 +1,159 @@
+/**
+ * Budget tools — compare spend against locally configured monthly caps.
+ */
+
+import { z } from 'zod';
+import type { BlacksmithClient } from '../client.js';
+import type { ToolContext } from './context.js';
+import { attributeJobCosts, buildSpendForecast } from './spend.js';
+import {
+  evaluateBudget,
+  getBudgetsPath,
+  loadBudgetsFromEnv,
+  matchesRepository,
+  type Budget,
+  type BudgetAlert,
+  type BudgetStatus,
+  type SpendBasis,
+} from '../utils/budgets.js';
+import { roundDollars } from '../utils/billing.js';
+import { formatErrorResponse } from '../utils/errors.js';
+
+export const checkBudgetsSchema = z.object({
+  org: z.string().optional().describe('Only check budgets for this org (default: every org in the budget file)'),
+  max_runs: z
+    .number()
+    .optional()
+    .describe('Maximum runs to price per org for repository budgets, sampled across the period (default: 50)'),
+});
+
+export async function checkBudgets(
+  client: BlacksmithClient,
+  args: z.infer<typeof checkBudgetsSchema>,
+  context: ToolContext = {}
+) {
+  const config = loadBudgetsFromEnv();
+  if (!config) {
+    return {
+      error: `No budget file found at ${getBudgetsPath()}`,
+      suggestion: 'Create it with monthly caps per org and repository, or set BLACKSMITH_BUDGETS_FILE. See the README for the format.',
+    };
+  }
+
+  const budgets = config.budgets.filter((b) => !args.org || b.org.toLowerCase() === args.org.toLowerCase());
+  if (budgets.length === 0) {
+    return {
+      error: args.org ? `No budgets configured for org "${args.org}"` : 'The budget file has no budgets',
+      suggestion: `Add entries to ${config.path}.`,
+    };
+  }
+
+  const { installations } = await client.listOrgs();
+  const byOrg = new Map<string, Budget[]>();
+  for (const budget of budgets) {
+    const key = budget.org.toLowerCase();
+    byOrg.set(key, [...(byOrg.get(key) ?? []), budget]);
+  }
+
+  const rows = [];
+  const breaches: BudgetAlert[] = [];
+  const warnings: BudgetAlert[] = [];
+  const errors: { org: string; message: string }[] = [];
+  let cancelled = false;
+
+  for (const [key, orgBudgets] of byOrg) {
+    if (context.signal?.aborted) {
+      cancelled = true;
+      break;
+    }
+
+    const org = orgBudgets[0]?.org ?? key;
+    const login = installations.find((i) => i.login.toLowerCase() === key)?.login;
+    if (!login) {
+      errors.push({ org, message: `Organization "${org}" is not accessible to this session.` });
+      continue;
+    }
+
+    try {
+      const orgClient = client.withOrg(login);
+      const forecast = await buildSpendForecast(orgClient);
+      const { current, period } = forecast;
+
+      // Repository spend is priced job minutes, grown at the org's forecast rate
+      const repoBudgets = orgBudgets.filter((b) => b.repository !== null);
+      const costs = repoBudgets.length > 0
+        ? await attributeJobCosts(orgClient, {
+          startDate: period.start,
+          endDate: new Date().toISOString(),
+          groupBy: 'repository',
+          repositories: repoBudgets.map((b) => (b.repository?.includes('/') ? b.repository : `${login}/${b.repository}`)),
+          maxRuns: args.max_runs,
+          context,
+        })
+        : null;
+      const growth = current.billable_minutes > 0
+        ? forecast.forecast.billable_minutes.expected / current.billable_minutes
+        : period.elapsed_days > 0
+          ? (period.elapsed_days + period.remaining_days) / period.elapsed_days
+          : 1;
+
+      for (const budget of orgBudgets) {
+        let actual: number;
+        let projected: number;
+        // The org invoice is net of the free tier; repository spend can only be priced at list price
+        const basis: SpendBasis = budget.repository === null ? 'invoice' : 'list_price';
+        if (budget.repository === null) {
+          actual = current.invoice_dollars;
+          projected = forecast.forecast.invoice_dollars.expected;
+        } else {
+          const repository = budget.repository;
+          const cost = [...(costs?.buckets.entries() ?? [])]
+            .filter(([name]) => matchesRepository(name, repository))
+            .reduce((sum, [, bucket]) => sum + bucket.cost, 0);
+          actual = roundDollars(cost * (costs?.scale ?? 1));
+          projected = roundDollars(actual * growth);
+        }
+
+        const { status, alert } = evaluateBudget({ ...budget, org: login }, actual, projected, basis);
+        if (alert) (status === 'breach' ? breaches : warnings).push(alert);
+
+        rows.push({
+          org: login,
+          repository: budget.repository,
+          cap_dollars: budget.monthlyUsd,
+          actual_dollars: actual,
+          forecast_dollars: projected,
+          basis,
+          actual_percent: Math.round((actual / budget.monthlyUsd) * 1000) / 10,
+          forecast_percent: Math.round((projected / budget.monthlyUsd) * 1000) / 10,
+          warn_at_percent: budget.warnAtPercent,
+          status,
+          period_end: period.end,
+        });
+      }
+    } catch (error) {
+      errors.push({ org, message: formatErrorResponse(error).message });
+    }
+  }
+
+  const status: BudgetStatus = breaches.length > 0 ? 'breach' : warnings.length > 0 ? 'warning' : 'ok';
+  const mixedBases = new Set(rows.map((row) => row.basis)).size > 1;
+
+  return {
+    status,
+    config: config.path,
+    budgets: rows,
+    breaches,
+    warnings,
+    ...(errors.length > 0 && { errors }),
+    ...(cancelled && { cancelled: true }),
+    ...(mixedBases && {
+      note: 'Org budgets use the invoice, net of the free tier. Repository budgets use job minutes at list price, so they can add up to more than the org figure.',
+    }),
+    insight: rows.length === 0
+      ? `No budgets could be checked: ${errors.map((e) => e.message).join(' ')}`
+      : status === 'ok'
+        ? `All ${rows.length} budget${rows.length === 1 ? '' : 's'} are within their caps and forecasts.`
+        : [...breaches, ...warnings].map((alert) => alert.message).join(' '),
+  };
+}
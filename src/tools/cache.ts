@@ -0,0 +1,28 @@
+/**
+ * Local response cache tools.
+ */
+
+import { z } from 'zod';
+import type { BlacksmithClient } from '../client.js';
+
+export const clearCacheSchema = z.object({});
+
+export async function clearCache(client: BlacksmithClient) {
+  const before = client.getResponseCacheStats();
+  if (!before) {
+    return {
+      cleared: false,
+      insight: 'Response caching is disabled (BLACKSMITH_CACHE=0).',
+    };
+  }
+
+  const result = client.clearResponseCache();
+
+  return {
+    cleared: true,
+    entries_cleared: result.entries_cleared,
+    bytes_cleared: result.bytes_cleared,
+    stats_before: before,
+    insight: `Cleared ${result.entries_cleared} cached response(s). Subsequent calls will fetch fresh data.`,
+  };
+}
@@ -0,0 +1,16 @@
+/**
+ * Per-call context passed to tool handlers.
+ */
+
+import type { BlacksmithClient } from '../client.js';
+
+export interface ToolContext {
+  /** Aborted when the client cancels the request. */
+  signal?: AbortSignal;
+  /** Report progress to the client, if it asked for progress notifications. */
+  reportProgress?: (progress: number, total: number, message?: string) => void;
+  /** Set for callers over HTTP, who must not see this machine's environment or browser cookies. */
+  remote?: boolean;
+  /** Make a client the default for the rest of this MCP session (see switch_org). */
+  setSessionClient?: (client: BlacksmithClient) => void;
+}
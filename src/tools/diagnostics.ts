@@ -0,0 +1,118 @@
+/**
+ * Connection diagnostics.
+ *
+ * Runs without a configured client, so it can explain why setup fails.
+ * Never includes the session cookie value in its output.
+ */
+
+import { z } from 'zod';
+import { BlacksmithClient } from '../client.js';
+import { diagnoseSessionCookie } from '../utils/cookies.js';
+import { formatErrorResponse } from '../utils/errors.js';
+
+export const diagnoseConnectionSchema = z.object({});
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Warn when the session expires within this window
+const EXPIRY_WARNING_MS = 24 * HOUR_MS;
+
+export async function diagnoseConnection() {
+  const problems: string[] = [];
+  const warnings: string[] = [];
+  const configuredOrg = process.env['BLACKSMITH_ORG'] ?? null;
+
+  // 1. Session cookie
+  const { cookie, source, sources } = diagnoseSessionCookie();
+  const selected = sources.find((s) => s.browser === cookie?.browser && s.profile === cookie.profile);
+  const undecryptable = sources.reduce((sum, s) => sum + s.undecryptable, 0);
+
+  const expiresInMs = cookie?.expiresAt ? cookie.expiresAt - Date.now() : null;
+  const cookieReport = {
+    found: cookie !== null,
+    source: source === 'env' ? 'BLACKSMITH_SESSION_COOKIE' : source === 'browser' ? 'browser' : null,
+    browser: cookie?.browser ?? null,
+    profile: cookie?.profile ?? null,
+    database: selected?.path ?? null,
+    name: cookie?.name ?? null,
+    decryption: source !== 'browser' ? 'not_needed' : cookie?.encrypted ? 'ok' : 'not_encrypted',
+    expires_at: cookie?.expiresAt ? new Date(cookie.expiresAt).toISOString() : null,
+    expires_in_hours: expiresInMs !== null ? Math.round((expiresInMs / HOUR_MS) * 10) / 10 : null,
+    browser_filter: {
+      browser: process.env['BLACKSMITH_BROWSER'] ?? null,
+      profile: process.env['BLACKSMITH_BROWSER_PROFILE'] ?? null,
+    },
+    sources_searched: sources,
+  };
+
+  if (!cookie) {
+    if (sources.length === 0) {
+      problems.push('No browser cookie database found and BLACKSMITH_SESSION_COOKIE is not set.');
+    } else if (undecryptable > 0) {
+      cookieReport.decryption = 'failed';
+      problems.push(
+        `Found ${undecryptable} encrypted Blacksmith cookie(s) but could not decrypt them. ` +
+          'On macOS allow keychain access; on Linux install secret-tool (libsecret).'
+      );
+    } else {
+      problems.push('No unexpired Blacksmith session cookie found in any browser profile. Log into app.blacksmith.sh.');
+    }
+
+    return {
+      status: 'error',
+      cookie: cookieReport,
+      api: null,
+      org: { configured: configuredOrg, matches: null },
+      problems,
+    };
+  }
+
+  if (expiresInMs !== null && expiresInMs < EXPIRY_WARNING_MS) {
+    warnings.push(`Session cookie expires in ${cookieReport.expires_in_hours} hours.`);
+  }
+
+  // 2. API access, without retries or caching so latency is real
+  const client = new BlacksmithClient({ sessionCookie: cookie.value, retry: { maxRetries: 0 } });
+  const started = Date.now();
+  let orgs: string[] = [];
+  let apiReport: { ok: boolean; latency_ms: number; error?: ReturnType<typeof formatErrorResponse> };
+
+  try {
+    const response = await client.listOrgs();
+    orgs = response.installations.map((org) => org.login);
+    apiReport = { ok: true, latency_ms: Date.now() - started };
+  } catch (error) {
+    const formatted = formatErrorResponse(error);
+    apiReport = { ok: false, latency_ms: Date.now() - started, error: formatted };
+    problems.push(`listOrgs failed: ${formatted.message}`);
+  }
+
+  // 3. Org configuration
+  // Org names are matched case-insensitively, as switch_org and the per-call org argument do
+  const matches = configuredOrg && apiReport.ok
+    ? orgs.some((org) => org.toLowerCase() === configuredOrg.toLowerCase())
+    : null;
+  if (!configuredOrg) {
+    warnings.push('BLACKSMITH_ORG is not set. Pass org to each tool call or use switch_org to pick one.');
+  } else if (matches === false) {
+    problems.push(`BLACKSMITH_ORG "${configuredOrg}" is not one of the visible orgs.`);
+  }
+  if (apiReport.ok && orgs.length === 0) {
+    problems.push('No Blacksmith installations are visible to this session.');
+  }
+
+  return {
+    status: problems.length > 0 ? 'error' : warnings.length > 0 ? 'warning' : 'ok',
+    cookie: cookieReport,
+    api: {
+      ...apiReport,
+      visible_orgs: orgs,
+    },
+    org: {
+      configured: configuredOrg,
+      matches,
+    },
+    ...(problems.length > 0 && { problems }),
+    ...(warnings.length > 0 && { warnings }),
+  };
+}
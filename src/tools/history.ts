@@ -0,0 +1,168 @@
+/**
+ * Local history store tools.
+ */
+
+import { z } from 'zod';
+import type { BlacksmithClient } from '../client.js';
+import { getDefaultDateRange } from '../utils/dates.js';
+import { isRunCompleted } from '../utils/runs.js';
+import { logger } from '../utils/logger.js';
+import type { ToolContext } from './context.js';
+
+export const syncHistorySchema = z.object({
+  start_date: z.string().optional().describe('Start date (YYYY-MM-DD). Defaults to 30 days ago.'),
+  end_date: z.string().optional().describe('End date (YYYY-MM-DD). Defaults to today.'),
+  include_tests: z
+    .boolean()
+    .optional()
+    .describe('Also fetch test results for each run (default: true)'),
+  max_runs: z
+    .number()
+    .optional()
+    .describe('Maximum number of runs to backfill in this call (default: 200)'),
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Parse a YYYY-MM-DD date to midnight UTC, or null if it isn't a real date.
+ */
+function parseDay(date: string): number | null {
+  if (!DATE_PATTERN.test(date)) return null;
+  const time = new Date(`${date}T00:00:00Z`).getTime();
+  // Reject dates that roll over, like 2024-02-30
+  if (isNaN(time) || new Date(time).toISOString().slice(0, 10) !== date) return null;
+  return time;
+}
+
+export async function syncHistory(
+  client: BlacksmithClient,
+  args: z.infer<typeof syncHistorySchema>,
+  context: ToolContext = {}
+) {
+  const history = client.history;
+  if (!history) {
+    return {
+      error: 'Local history store is not enabled',
+      suggestion: 'Set BLACKSMITH_HISTORY_DB to a file path (or "1" for ~/.blacksmith-mcp/history.db) and restart the server.',
+    };
+  }
+
+  const defaults = getDefaultDateRange(30);
+  const startDate = args.start_date ?? defaults.startDate;
+  const endDate = args.end_date ?? defaults.endDate;
+  const includeTests = args.include_tests ?? true;
+  const maxRuns = args.max_runs ?? 200;
+
+  const start = parseDay(startDate);
+  const end = parseDay(endDate);
+  if (start === null || end === null) {
+    return {
+      error: `Invalid date range: ${startDate} to ${endDate}`,
+      suggestion: 'Use YYYY-MM-DD dates, e.g. start_date: "2024-01-01".',
+    };
+  }
+  if (start > end) {
+    return {
+      error: `start_date ${startDate} is after end_date ${endDate}`,
+      suggestion: 'Swap the dates so start_date comes first.',
+    };
+  }
+
+  // Walk the range one day at a time so progress and max_runs apply as we go
+  let runsListed = 0;
+  let runsSynced = 0;
+  let runsSkipped = 0;
+  let runsPending = 0;
+  // Oldest day with a run still in progress; it and later days must be synced again
+  let oldestPendingDay: number | null = null;
+  let failures = 0;
+  let truncated = false;
+  let cancelled = false;
+
+  const totalDays = Math.floor((end - start) / DAY_MS) + 1;
+
+  for (let day = end; day >= start; day -= DAY_MS) {
+    if (context.signal?.aborted) {
+      cancelled = true;
+      break;
+    }
+    if (runsSynced >= maxRuns) {
+      truncated = true;
+      break;
+    }
+
+    const date = new Date(day).toISOString().split('T')[0] ?? '';
+    // A backfill needs every run of the day
+    const runs = await client.listRuns({ startDate: date, endDate: date, limit: Infinity, signal: context.signal });
+    runsListed += runs.length;
+
+    const completed = runs.filter(isRunCompleted);
+    if (completed.length < runs.length) {
+      runsPending += runs.length - completed.length;
+      oldestPendingDay = day;
+    }
+
+    for (const run of completed) {
+      if (context.signal?.aborted) break;
+      if (runsSynced >= maxRuns) {
+        truncated = true;
+        break;
+      }
+
+      const runId = String(run.id);
+      if (history.isRunSynced(runId)) {
+        runsSkipped++;
+        continue;
+      }
+
+      try {
+        // Both calls record into the store as a side effect
+        await client.getRun(runId);
+        if (includeTests) {
+          await client.getRunTests(runId);
+        }
+        runsSynced++;
+      } catch (error) {
+        failures++;
+        logger.warn(`Failed to sync run ${runId}`, error);
+      }
+    }
+
+    const daysDone = Math.floor((end - day) / DAY_MS) + 1;
+    context.reportProgress?.(daysDone, totalDays, `Synced ${date} (${runsSynced} runs so far)`);
+  }
+
+  // Only a complete backfill lets the test history tools trust the store for this range.
+  // Days from the oldest unfinished run onward stay unsynced so those runs are fetched later.
+  const syncedEnd = oldestPendingDay === null ? end : oldestPendingDay - DAY_MS;
+  const syncedThrough = new Date(syncedEnd).toISOString().split('T')[0] ?? '';
+  if (!truncated && !cancelled && failures === 0 && includeTests && syncedEnd >= start) {
+    history.markSynced(client.getOrg(), startDate, syncedThrough);
+  }
+
+  const stats = history.getStats(client.getOrg());
+
+  return {
+    date_range: { start: startDate, end: endDate },
+    sync: {
+      runs_listed: runsListed,
+      runs_synced: runsSynced,
+      runs_already_stored: runsSkipped,
+      ...(runsPending > 0 && { runs_in_progress: runsPending }),
+      failures,
+      truncated,
+      ...(cancelled && { cancelled: true }),
+    },
+    store: stats,
+    insight: cancelled
+      ? `Cancelled after syncing ${runsSynced} runs. Call sync_history again to continue; already-stored runs are skipped.`
+      : truncated
+      ? `Synced ${runsSynced} runs (limit reached). Call sync_history again to continue; already-stored runs are skipped.`
+      : `Synced ${runsSynced} new runs. Store now holds ${stats.runs} runs from ${stats.oldest_run?.split('T')[0] ?? 'n/a'} to ${stats.newest_run?.split('T')[0] ?? 'n/a'}.` +
+        (runsPending > 0
+          ? ` ${runsPending} runs were still in progress, so ${syncedEnd >= start ? `only ${startDate} to ${syncedThrough}` : 'none of the range'} counts as synced; call sync_history again once they finish.`
+          : ''),
+  };
+}
@@ -3,8 +3,10 @@
  */
 
 import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
 import { zodToJsonSchema } from 'zod-to-json-schema';
 import type { BlacksmithClient } from '../client.js';
+import type { ToolContext } from './context.js';
 
 // Import tool schemas and handlers
 import {
@@ -12,10 +14,13 @@ import {
   getOrgStatusSchema,
   getOrgSettingsSchema,
   getActorsSchema,
+  switchOrgSchema,
   listOrgs,
   getOrgStatus,
   getOrgSettings,
   getActors,
+  switchOrg,
+  resolveOrgLogin,
 } from './org.js';
 import {
   listRunsSchema,
@@ -34,8 +39,10 @@ import {
 import {
   getJobSchema,
   getJobLogsSchema,
+  getJobMetricsSchema,
   getJob,
   getJobLogs,
+  getJobMetrics,
 } from './jobs.js';
 import {
   getJobTestsSchema,
@@ -62,13 +69,22 @@ import {
   getCoreUsageTimeseriesSchema,
   getCacheStatsSchema,
   getCacheEntriesSchema,
+  getOrgPortfolioSummarySchema,
   getCurrentUsage,
   getInvoiceAmount,
   getUsageSummary,
   getCoreUsageTimeseries,
   getCacheStats,
   getCacheEntries,
+  getOrgPortfolioSummary,
 } from './usage.js';
+import {
+  forecastSpendSchema,
+  getCostBreakdownSchema,
+  forecastSpend,
+  getCostBreakdown,
+} from './spend.js';
+import { checkBudgetsSchema, checkBudgets } from './budgets.js';
 import {
   getMonitorsSchema,
   getMonitors,
@@ -97,16 +113,66 @@ import {
   getActiveBranches,
   getJobDurationDistribution,
 } from './analytics.js';
+import {
+  recommendRunnerSizesSchema,
+  recommendRunnerSizes,
+} from './runners.js';
+import {
+  quarantineTestSchema,
+  releaseQuarantinedTestSchema,
+  listQuarantinedTestsSchema,
+  exportQuarantineSchema,
+  checkQuarantineSchema,
+  quarantineTest,
+  releaseQuarantinedTest,
+  listQuarantinedTests,
+  exportQuarantine,
+  checkQuarantine,
+} from './quarantine.js';
+import {
+  syncHistorySchema,
+  syncHistory,
+} from './history.js';
+import {
+  clearCacheSchema,
+  clearCache,
+} from './cache.js';
+import { diagnoseConnectionSchema, diagnoseConnection } from './diagnostics.js';
 
 /**
  * Tool definition with metadata.
  */
 interface ToolDefinition {
+  name: string;
+  description: string;
+  schema: z.AnyZodObject;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  handler: (client: BlacksmithClient, args: any, context: ToolContext) => Promise<unknown>;
+  /** Set to false for tools that don't act on a single org (no "org" argument). */
+  orgScoped?: boolean;
+}
+
+/**
+ * Optional per-call org override, added to every org-scoped tool.
+ */
+const orgArgSchema = z.object({
+  org: z
+    .string()
+    .optional()
+    .describe('Organization to query for this call only (defaults to the current org; see switch_org)'),
+});
+
+/**
+ * Tool that runs without a Blacksmith client, e.g. to diagnose why one can't be created.
+ */
+interface StandaloneToolDefinition {
   name: string;
   description: string;
   schema: Parameters<typeof zodToJsonSchema>[0];
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  handler: (client: BlacksmithClient, args: any) => Promise<unknown>;
+  handler: (args: any) => Promise<unknown>;
+  /** Reads this machine's environment and browser cookies, so remote callers don't get it. */
+  hostOnly?: boolean;
 }
 
 /**
@@ -120,6 +186,15 @@ const tools: ToolDefinition[] = [
       'List all Blacksmith organizations accessible to your account. Use this first to see available orgs.',
     schema: listOrgsSchema,
     handler: listOrgs,
+    orgScoped: false,
+  },
+  {
+    name: 'switch_org',
+    description:
+      'Switch the current organization for all following tool calls in this session. The org must be one of the installations from list_orgs. To query another org for a single call, pass the "org" argument to that tool instead.',
+    schema: switchOrgSchema,
+    handler: switchOrg,
+    orgScoped: false,
   },
   {
     name: 'get_org_status',
@@ -147,7 +222,7 @@ const tools: ToolDefinition[] = [
   {
     name: 'list_runs',
     description:
-      'List workflow runs with filtering. Filter by status (success/failure/cancelled/skipped/in_progress), branch, workflow name, actor, or PR number. Example: list_runs(status="failure") to find failed runs.',
+      'List workflow runs with filtering. Filter by status (success/failure/cancelled/skipped/in_progress), branch, workflow name, actor, or PR number. Results are paginated: pass the returned cursor (or page) while has_more is true; total_matching is the count across all pages. Example: list_runs(status="failure") to find failed runs.',
     schema: listRunsSchema,
     handler: listRuns,
   },
@@ -202,6 +277,13 @@ const tools: ToolDefinition[] = [
     schema: getJobLogsSchema,
     handler: getJobLogs,
   },
+  {
+    name: 'get_job_metrics',
+    description:
+      'Get CPU and memory usage for the VM a job ran on, with peak, mean and p95 figures. Finds the VM ID automatically and flags jobs that look CPU-bound, memory-bound, or over-provisioned for their runner.',
+    schema: getJobMetricsSchema,
+    handler: getJobMetrics,
+  },
 
   // Tests
   {
@@ -228,14 +310,14 @@ const tools: ToolDefinition[] = [
   {
     name: 'compare_test_runs',
     description:
-      'Compare test failures between two runs to identify regressions. Shows new failures, fixed tests, and persistent failures. If base_run_id not provided, compares against most recent prior run.',
+      'Compare test failures between two runs to identify regressions. Shows new failures, fixed tests, and persistent failures. If base_run_id not provided, compares against the most recent prior run of the same workflow on the base branch of the PR (or on the same branch outside PRs).',
     schema: compareTestRunsSchema,
     handler: compareTestRuns,
   },
   {
     name: 'get_flaky_tests',
     description:
-      'Detect flaky tests by analyzing pass/fail patterns across recent runs. Returns tests that fail intermittently (e.g., "failed 3 of 10 runs"). Killer feature for CI stability.',
+      'Detect flaky tests by analyzing pass/fail patterns across recent runs and re-run attempts. Groups results by commit SHA so a test that failed then passed on retry of the same commit scores as a strong flake, while failures confined to a few consecutive commits are reported as likely regressions. Each test gets a confidence score. job_name accepts a glob or /regex/ (or omit it to scan every job with test results); matrix shards are merged by test, with failures attributed to the shard they came from. Killer feature for CI stability.',
     schema: getFlakyTestsSchema,
     handler: getFlakyTests,
   },
@@ -249,18 +331,55 @@ const tools: ToolDefinition[] = [
   {
     name: 'get_test_history',
     description:
-      'Get the failure history for a specific test across recent runs. Shows when it passed/failed, on which branches, and error messages for failures.',
+      'Get the failure history for a specific test across recent runs. Shows when it passed/failed, on which branches and jobs, and error messages for failures. job_name accepts a glob or /regex/, or omit it to search every job.',
     schema: getTestHistorySchema,
     handler: getTestHistory,
   },
   {
     name: 'get_trends',
     description:
-      'Track metrics over time: duration (are tests getting slower?), failure_rate (are tests getting flakier?), test_count (are we adding tests?). Returns trend analysis with data points.',
+      'Track metrics over time: duration (are tests getting slower?), failure_rate (are tests getting flakier?), test_count (are we adding tests?). Returns trend analysis with data points. job_name accepts a glob or /regex/, or omit it to cover every job with test results; matrix shards of a run are combined into one data point.',
     schema: getTrendsSchema,
     handler: getTrends,
   },
 
+  // Quarantine
+  {
+    name: 'quarantine_test',
+    description:
+      'Add a flaky test to the local quarantine list (or update its entry) with an owner, reason and expiry. Use after get_flaky_tests identifies an offender.',
+    schema: quarantineTestSchema,
+    handler: quarantineTest,
+  },
+  {
+    name: 'release_quarantined_test',
+    description:
+      'Remove a test from the quarantine list once it is fixed or stable.',
+    schema: releaseQuarantinedTestSchema,
+    handler: releaseQuarantinedTest,
+  },
+  {
+    name: 'list_quarantined_tests',
+    description:
+      'List quarantined tests with their owner, reason and expiry. Flags entries past their expiry.',
+    schema: listQuarantinedTestsSchema,
+    handler: listQuarantinedTests,
+  },
+  {
+    name: 'export_quarantine',
+    description:
+      'Export active quarantined tests for a test runner: a Jest/Vitest testNamePattern exclusion, pytest --deselect arguments, or a JUnit-style Class#method skip list.',
+    schema: exportQuarantineSchema,
+    handler: exportQuarantine,
+  },
+  {
+    name: 'check_quarantine',
+    description:
+      'Check recent results of quarantined tests and flag those that passed N times in a row (default: 5) so they can be released. Also reports expired entries.',
+    schema: checkQuarantineSchema,
+    handler: checkQuarantine,
+  },
+
   // Usage
   {
     name: 'get_current_usage',
@@ -293,7 +412,7 @@ const tools: ToolDefinition[] = [
   {
     name: 'get_cache_entries',
     description:
-      'Get detailed cache entries for a repository. Shows cache keys, sizes, scopes (branches), and last hit times. Useful for debugging cache issues.',
+      'Get detailed cache entries for a repository. Shows cache keys, sizes, scopes (branches), and last hit times. Paginated with page/cursor; total_matching counts every entry. Useful for debugging cache issues.',
     schema: getCacheEntriesSchema,
     handler: getCacheEntries,
   },
@@ -304,6 +423,36 @@ const tools: ToolDefinition[] = [
     schema: getCoreUsageTimeseriesSchema,
     handler: getCoreUsageTimeseries,
   },
+  {
+    name: 'get_org_portfolio_summary',
+    description:
+      'Summarize spend and usage across every accessible organization: invoice amount, billable and free minutes, current cores and cache size per org, with totals. Answers "what are we spending on Blacksmith across everything".',
+    schema: getOrgPortfolioSummarySchema,
+    handler: getOrgPortfolioSummary,
+    orgScoped: false,
+  },
+  {
+    name: 'forecast_spend',
+    description:
+      'Forecast the end-of-period invoice and the date free minutes run out, with an 80% confidence range and a comparison to the previous period. Combines the invoice period, billable minutes and daily job history.',
+    schema: forecastSpendSchema,
+    handler: forecastSpend,
+  },
+  {
+    name: 'get_cost_breakdown',
+    description:
+      'Attribute CI spend to repositories, workflows, branches, actors or runner types by pricing the billed minutes of each job from its runner labels. Prices come from BLACKSMITH_PRICES_FILE or Blacksmith list prices. Reconciles the total against the current invoice.',
+    schema: getCostBreakdownSchema,
+    handler: getCostBreakdown,
+  },
+  {
+    name: 'check_budgets',
+    description:
+      'Check actual and forecast spend against the monthly caps per org and per repository in the local budget file. Returns structured breaches (cap already exceeded) and warnings (forecast over cap, or past the warning threshold).',
+    schema: checkBudgetsSchema,
+    handler: checkBudgets,
+    orgScoped: false,
+  },
   {
     name: 'get_monitors',
     description:
@@ -383,13 +532,61 @@ const tools: ToolDefinition[] = [
     schema: getJobDurationDistributionSchema,
     handler: getJobDurationDistribution,
   },
+
+  // Runner Sizing
+  {
+    name: 'recommend_runner_sizes',
+    description:
+      'Recommend right-sized Blacksmith runners for each job in a workflow. Samples recent runs, compares peak CPU/memory against the vCPU/RAM of the runner label (e.g., blacksmith-16vcpu-ubuntu-2204), and estimates the cost and time change of a smaller or larger runner.',
+    schema: recommendRunnerSizesSchema,
+    handler: recommendRunnerSizes,
+  },
+
+  // Local Data
+  {
+    name: 'sync_history',
+    description:
+      'Backfill the local history store with runs, jobs, and test results for a date range. Once synced, get_flaky_tests, get_test_history, and get_trends answer from local data instantly, across months. Requires BLACKSMITH_HISTORY_DB.',
+    schema: syncHistorySchema,
+    handler: syncHistory,
+  },
+  {
+    name: 'clear_cache',
+    description:
+      'Clear the local API response cache so the next calls fetch fresh data. Finished runs and their test results are otherwise cached for the whole session. Does not affect the Blacksmith Actions cache (see get_cache_entries).',
+    schema: clearCacheSchema,
+    handler: clearCache,
+    orgScoped: false,
+  },
+];
+
+/**
+ * Tools that run without a Blacksmith client.
+ */
+const standaloneTools: StandaloneToolDefinition[] = [
+  {
+    name: 'diagnose_connection',
+    description:
+      'Diagnose the Blacksmith connection: where the session cookie came from (env var or browser profile), whether decryption worked, its expiry, whether the API accepts it (with latency), which orgs are visible, and whether BLACKSMITH_ORG matches. Use when other tools fail with session or configuration errors. Never shows the cookie.',
+    schema: diagnoseConnectionSchema,
+    handler: diagnoseConnection,
+    hostOnly: true,
+  },
 ];
 
 /**
- * Get MCP tool definitions.
+ * Get MCP tool definitions. Remote callers don't see host-only tools.
  */
-export function getToolDefinitions(): Tool[] {
-  return tools.map((tool) => ({
+export function getToolDefinitions(options: { remote?: boolean } = {}): Tool[] {
+  const definitions = tools.map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+    schema: tool.orgScoped === false ? tool.schema : tool.schema.merge(orgArgSchema),
+  }));
+
+  const standalone = standaloneTools.filter((tool) => !(options.remote && tool.hostOnly));
+
+  return [...definitions, ...standalone].map((tool) => ({
     name: tool.name,
     description: tool.description,
     inputSchema: zodToJsonSchema(tool.schema) as Tool['inputSchema'],
@@ -398,16 +595,37 @@ export function getToolDefinitions(): Tool[] {
 
 /**
  * Execute a tool by name.
+ * The client is only resolved for tools that need one.
  */
 export async function executeTool(
-  client: BlacksmithClient,
+  getClient: () => Promise<BlacksmithClient>,
   name: string,
-  args: Record<string, unknown>
+  args: Record<string, unknown>,
+  context: ToolContext = {}
 ): Promise<unknown> {
+  const standalone = standaloneTools.find((t) => t.name === name && !(context.remote && t.hostOnly));
+  if (standalone) {
+    return standalone.handler(args);
+  }
+
   const tool = tools.find((t) => t.name === name);
   if (!tool) {
     throw new Error(`Unknown tool: ${name}`);
   }
 
-  return tool.handler(client, args);
+  // Cancelling the call aborts its API requests and retry waits
+  const client = await getClient();
+  const callClient = context.signal ? client.withSignal(context.signal) : client;
+  if (tool.orgScoped === false) {
+    return tool.handler(callClient, args, context);
+  }
+
+  // A per-call org runs on a copy of the client, leaving the current org untouched
+  const { org, ...toolArgs } = args;
+  if (typeof org === 'string' && org) {
+    const login = await resolveOrgLogin(callClient, org);
+    return tool.handler(callClient.withOrg(login), toolArgs, context);
+  }
+
+  return tool.handler(callClient, toolArgs, context);
 }
@@ -4,6 +4,13 @@
 
 import { z } from 'zod';
 import type { BlacksmithClient } from '../client.js';
+import {
+  summarizeSeries,
+  getRunnerSpec,
+  memoryToPercent,
+  getProvisioningHint,
+  resolveJobVmId,
+} from '../utils/metrics.js';
 
 export const getJobSchema = z.object({
   run_id: z.string().describe('GitHub Actions workflow run ID'),
@@ -16,6 +23,19 @@ export const getJobLogsSchema = z.object({
   vm_id: z.string().optional().describe('VM ID for the job (optional)'),
 });
 
+export const getJobMetricsSchema = z.object({
+  run_id: z.string().describe('GitHub Actions workflow run ID'),
+  job_id: z.string().describe('GitHub Actions job ID'),
+  vm_id: z
+    .string()
+    .optional()
+    .describe('VM ID for the job (optional, looked up automatically if omitted)'),
+  include_timeseries: z
+    .boolean()
+    .optional()
+    .describe('Include raw CPU/memory data points (default: false; summary stats are always returned)'),
+});
+
 export async function getJob(
   client: BlacksmithClient,
   args: z.infer<typeof getJobSchema>
@@ -75,3 +95,60 @@ export async function getJobLogs(
     logs: result.logs,
   };
 }
+
+export async function getJobMetrics(
+  client: BlacksmithClient,
+  args: z.infer<typeof getJobMetricsSchema>
+) {
+  const job = await client.getJob(args.run_id, args.job_id);
+  const vmId = args.vm_id ?? await resolveJobVmId(client, job);
+
+  if (!vmId) {
+    return {
+      error: `Could not determine the VM ID for job ${args.job_id}`,
+      job_id: args.job_id,
+      labels: job.labels,
+      suggestion: 'Metrics are only available for jobs that ran on Blacksmith runners. Pass vm_id explicitly if you know it.',
+    };
+  }
+
+  const metrics = await client.getJobMetrics(args.run_id, args.job_id, vmId);
+  const spec = getRunnerSpec(job.labels);
+
+  const cpuSeries = metrics.cpu ?? [];
+  const memorySeries = memoryToPercent(metrics.memory ?? [], spec?.memory_gb ?? null);
+  const cpu = summarizeSeries(cpuSeries);
+  const memory = memorySeries ? summarizeSeries(memorySeries) : null;
+  const provisioning = getProvisioningHint(cpu, memory, spec);
+
+  return {
+    job: {
+      id: job.id,
+      name: job.name,
+      conclusion: job.conclusion,
+      runtime_seconds: job.runtime_seconds,
+      labels: job.labels,
+    },
+    vm_id: vmId,
+    runner: spec
+      ? { vcpus: spec.vcpus, memory_gb: spec.memory_gb, arch: spec.arch }
+      : null,
+    cpu_percent: cpu,
+    memory_percent: memory,
+    provisioning: provisioning.status,
+    ...((args.include_timeseries ?? false) && {
+      timeseries: {
+        cpu: cpuSeries,
+        memory: (memorySeries ?? []).map((p) => ({
+          timestamp: p.timestamp,
+          value: Math.round(p.value * 100) / 100,
+        })),
+      },
+    }),
+    insight: spec
+      ? provisioning.hint
+      : memorySeries === null
+        ? `${provisioning.hint} Memory was reported in bytes and the runner size is unknown, so memory usage is omitted.`
+      : `${provisioning.hint} Runner size could not be inferred from labels, so sizing advice is approximate.`,
+  };
+}
@@ -4,6 +4,7 @@
 
 import { z } from 'zod';
 import type { BlacksmithClient } from '../client.js';
+import { decodeCursor, encodeCursor } from '../utils/pagination.js';
 
 export const getLogFilterOptionsSchema = z.object({
   property: z
@@ -39,7 +40,9 @@ export const searchLogsSchema = z.object({
   limit: z
     .number()
     .optional()
-    .describe('Maximum number of logs to return (default: 100)'),
+    .describe('Logs per page (default: 100)'),
+  page: z.number().optional().describe('Page number (default: 1)'),
+  cursor: z.string().optional().describe('Cursor from a previous response to fetch the next page; overrides page'),
 });
 
 export async function searchLogs(
@@ -48,6 +51,13 @@ export async function searchLogs(
 ) {
   const hours = Math.min(args.hours ?? 1, 24);
   const limit = args.limit ?? 100;
+  const position = args.cursor ? decodeCursor(args.cursor) : { page: args.page ?? 1 };
+  if (!position) {
+    return {
+      error: `Invalid cursor: ${args.cursor}`,
+      suggestion: 'Pass the cursor exactly as returned by a previous search_logs call, or use page instead.',
+    };
+  }
 
   const endTime = new Date().toISOString();
   const startTime = new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
@@ -65,8 +75,10 @@ export async function searchLogs(
     logs = logs.filter(log => log.level.toUpperCase() === args.level);
   }
 
-  // Apply limit
-  const limitedLogs = logs.slice(0, limit);
+  // The search endpoint returns every match at once, so page through it here
+  const offset = (position.page - 1) * limit;
+  const limitedLogs = logs.slice(offset, offset + limit);
+  const hasMore = offset + limit < logs.length;
 
   // Group by level for summary
   const levelCounts = new Map<string, number>();
@@ -79,6 +91,9 @@ export async function searchLogs(
     summary: {
       total_found: response.total_count ?? logs.length,
       showing: limitedLogs.length,
+      page: position.page,
+      has_more: hasMore,
+      cursor: hasMore ? encodeCursor(position.page + 1) : null,
       time_range: { start: startTime, end: endTime },
       by_level: Object.fromEntries(levelCounts),
     },
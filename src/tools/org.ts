@@ -4,6 +4,8 @@
 
 import { z } from 'zod';
 import type { BlacksmithClient } from '../client.js';
+import { ConfigurationError } from '../utils/errors.js';
+import type { ToolContext } from './context.js';
 
 export const listOrgsSchema = z.object({});
 
@@ -13,6 +15,24 @@ export const getOrgSettingsSchema = z.object({});
 
 export const getActorsSchema = z.object({});
 
+export const switchOrgSchema = z.object({
+  org: z.string().describe('Organization login to switch to (from list_orgs)'),
+});
+
+/**
+ * Resolve an org name to the login of an installation visible to this session.
+ * Matching is case-insensitive; throws if the org isn't visible.
+ */
+export async function resolveOrgLogin(client: BlacksmithClient, org: string): Promise<string> {
+  const { installations } = await client.listOrgs();
+  const match = installations.find((i) => i.login.toLowerCase() === org.toLowerCase());
+  if (!match) {
+    const available = installations.map((i) => i.login).join(', ') || 'none';
+    throw new ConfigurationError(`Organization "${org}" is not accessible. Available: ${available}`);
+  }
+  return match.login;
+}
+
 export async function listOrgs(client: BlacksmithClient) {
   const response = await client.listOrgs();
   return {
@@ -30,6 +50,36 @@ export async function listOrgs(client: BlacksmithClient) {
   };
 }
 
+export async function switchOrg(
+  client: BlacksmithClient,
+  args: z.infer<typeof switchOrgSchema>,
+  context: ToolContext = {}
+) {
+  if (!context.setSessionClient) {
+    return {
+      error: 'switch_org is only available within an MCP session',
+      suggestion: 'Pass the "org" argument to each tool call instead.',
+    };
+  }
+
+  const login = await resolveOrgLogin(client, args.org);
+  let previous: string | null = null;
+  try {
+    previous = client.getOrg();
+  } catch {
+    // No org was set yet
+  }
+
+  // Other sessions share the underlying client, so switch on a copy
+  context.setSessionClient(client.withOrg(login));
+
+  return {
+    previous_org: previous,
+    current_org: login,
+    hint: 'All tools in this session now default to this org. Pass the "org" argument to a single tool call to query another org without switching.',
+  };
+}
+
 export async function getOrgStatus(client: BlacksmithClient) {
   const [isPersonal, hasOnboarded, region] = await Promise.all([
     client.isPersonalOrg(),
@@ -0,0 +1,287 @@
+/**
+ * Quarantine tools — track flaky tests and export skip lists for test runners.
+ */
+
+import { z } from 'zod';
+import type { BlacksmithClient } from '../client.js';
+import type { ToolContext } from './context.js';
+import { getRecentJobTestRuns, type RunScope } from './tests.js';
+import {
+  exportQuarantine as renderQuarantine,
+  getQuarantinePath,
+  isExpired,
+  isSameTest,
+  loadQuarantine,
+  saveQuarantine,
+  type QuarantineEntry,
+} from '../utils/quarantine.js';
+import { parseJobPattern } from '../utils/jobs.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const quarantineTestSchema = z.object({
+  test_name: z.string().describe('Test name to quarantine'),
+  suite: z.string().optional().describe('Test suite (omit to match the name in any suite)'),
+  job_name: z
+    .string()
+    .optional()
+    .describe('Job the test runs in (exact name, glob like "Test (shard *)", or /regex/), used by check_quarantine to find its results'),
+  repository: z.string().optional().describe('Repository the test runs in (e.g., "Org/repo"), so check_quarantine only scans its runs'),
+  workflow_name: z.string().optional().describe('Workflow the test runs in, so check_quarantine only scans its runs'),
+  owner: z.string().describe('Person or team responsible for fixing the test'),
+  reason: z.string().describe('Why the test is quarantined (e.g., link to the flaky_tests finding or an issue)'),
+  expires_in_days: z.number().optional().describe('Days until the quarantine expires (default: 30)'),
+  expires_at: z.string().optional().describe('Expiry date (YYYY-MM-DD); overrides expires_in_days'),
+});
+
+export const releaseQuarantinedTestSchema = z.object({
+  test_name: z.string().describe('Test name to release from quarantine'),
+  suite: z.string().optional().describe('Test suite (omit to release the name in any suite)'),
+});
+
+export const listQuarantinedTestsSchema = z.object({});
+
+export const exportQuarantineSchema = z.object({
+  format: z
+    .enum(['jest', 'vitest', 'pytest', 'junit'])
+    .describe('jest/vitest: a testNamePattern that excludes quarantined tests; pytest: --deselect arguments; junit: a Class#method skip list'),
+  job_name: z.string().optional().describe('Only export tests quarantined for this job'),
+  include_expired: z
+    .boolean()
+    .optional()
+    .describe('Include entries whose quarantine has expired (default: false)'),
+});
+
+export const checkQuarantineSchema = z.object({
+  consecutive_passes: z
+    .number()
+    .optional()
+    .describe('Consecutive passes required before a test can be released (default: 5)'),
+  days: z.number().optional().describe('Number of days of runs to check (default: 14)'),
+  job_name: z
+    .string()
+    .optional()
+    .describe('Job to check for entries that were quarantined without a job_name'),
+});
+
+/**
+ * Format an entry for tool output.
+ */
+function describeEntry(entry: QuarantineEntry) {
+  return {
+    suite: entry.suite,
+    name: entry.name,
+    job_name: entry.job_name,
+    repository: entry.repository,
+    workflow_name: entry.workflow_name,
+    owner: entry.owner,
+    reason: entry.reason,
+    added_at: entry.added_at,
+    expires_at: entry.expires_at,
+    expired: isExpired(entry),
+  };
+}
+
+export async function quarantineTest(
+  client: BlacksmithClient,
+  args: z.infer<typeof quarantineTestSchema>
+) {
+  const org = client.getOrg();
+  const expiresAt = args.expires_at
+    ? new Date(args.expires_at)
+    : new Date(Date.now() + (args.expires_in_days ?? 30) * DAY_MS);
+  if (isNaN(expiresAt.getTime())) {
+    return {
+      error: `Invalid expires_at: ${args.expires_at}`,
+      suggestion: 'Use a YYYY-MM-DD date, or expires_in_days.',
+    };
+  }
+
+  const entries = loadQuarantine();
+  const test = { suite: args.suite ?? null, name: args.test_name };
+  const existing = entries.find((e) => e.org === org && e.name === test.name && e.suite === test.suite);
+
+  const entry: QuarantineEntry = {
+    org,
+    suite: test.suite,
+    name: test.name,
+    job_name: args.job_name ?? existing?.job_name ?? null,
+    repository: args.repository ?? existing?.repository ?? null,
+    workflow_name: args.workflow_name ?? existing?.workflow_name ?? null,
+    owner: args.owner,
+    reason: args.reason,
+    added_at: existing?.added_at ?? new Date().toISOString(),
+    expires_at: expiresAt.toISOString(),
+  };
+
+  saveQuarantine(existing ? entries.map((e) => (e === existing ? entry : e)) : [...entries, entry]);
+
+  return {
+    quarantined: describeEntry(entry),
+    updated: existing !== undefined,
+    file: getQuarantinePath(),
+    insight: `${existing ? 'Updated' : 'Quarantined'} "${entry.name}" until ${entry.expires_at?.split('T')[0]} (owner: ${entry.owner}). ` +
+      'Use export_quarantine to generate a skip list for your test runner.',
+  };
+}
+
+export async function releaseQuarantinedTest(
+  client: BlacksmithClient,
+  args: z.infer<typeof releaseQuarantinedTestSchema>
+) {
+  const org = client.getOrg();
+  const entries = loadQuarantine();
+  const test = { suite: args.suite ?? null, name: args.test_name };
+  const released = entries.filter((e) => e.org === org && isSameTest(e, test));
+
+  if (released.length === 0) {
+    return {
+      error: `"${args.test_name}" is not quarantined in ${org}`,
+      suggestion: 'Use list_quarantined_tests to see quarantined tests.',
+    };
+  }
+
+  saveQuarantine(entries.filter((e) => !released.includes(e)));
+
+  return {
+    released: released.map(describeEntry),
+    remaining: entries.filter((e) => e.org === org).length - released.length,
+    insight: `Released ${released.length} test(s) from quarantine. Re-export the skip list so test runners pick up the change.`,
+  };
+}
+
+export async function listQuarantinedTests(client: BlacksmithClient) {
+  const org = client.getOrg();
+  const entries = loadQuarantine().filter((e) => e.org === org);
+  const expired = entries.filter((e) => isExpired(e));
+
+  return {
+    file: getQuarantinePath(),
+    total: entries.length,
+    expired: expired.length,
+    entries: entries.map(describeEntry),
+    insight: entries.length === 0
+      ? 'No tests are quarantined. Use quarantine_test to add findings from get_flaky_tests.'
+      : `${entries.length} quarantined test(s)` +
+        (expired.length > 0 ? `, ${expired.length} past expiry — fix or extend them.` : '.'),
+  };
+}
+
+export async function exportQuarantine(
+  client: BlacksmithClient,
+  args: z.infer<typeof exportQuarantineSchema>
+) {
+  const org = client.getOrg();
+  const entries = loadQuarantine().filter((e) =>
+    e.org === org &&
+    (!args.job_name || e.job_name === args.job_name) &&
+    (args.include_expired || !isExpired(e))
+  );
+  const { content, usage } = renderQuarantine(entries, args.format);
+
+  return {
+    format: args.format,
+    tests: entries.length,
+    content,
+    usage,
+    insight: entries.length === 0
+      ? 'No active quarantined tests to export.'
+      : `Exported ${entries.length} quarantined test(s) for ${args.format}.`,
+  };
+}
+
+export async function checkQuarantine(
+  client: BlacksmithClient,
+  args: z.infer<typeof checkQuarantineSchema>,
+  context: ToolContext = {}
+) {
+  const required = args.consecutive_passes ?? 5;
+  const days = args.days ?? 14;
+  const org = client.getOrg();
+  const entries = loadQuarantine().filter((e) => e.org === org);
+
+  // Entries sharing a job, repository and workflow are checked against the same runs
+  const byScope = new Map<string, { jobName: string; scope: RunScope; entries: QuarantineEntry[] }>();
+  const unchecked: ReturnType<typeof describeEntry>[] = [];
+  for (const entry of entries) {
+    const jobName = entry.job_name ?? args.job_name;
+    if (!jobName) {
+      unchecked.push(describeEntry(entry));
+      continue;
+    }
+    const key = JSON.stringify([jobName, entry.repository, entry.workflow_name]);
+    const group = byScope.get(key) ?? {
+      jobName,
+      scope: { repository: entry.repository ?? undefined, workflow_name: entry.workflow_name ?? undefined },
+      entries: [],
+    };
+    group.entries.push(entry);
+    byScope.set(key, group);
+  }
+
+  const ready = [];
+  const stillQuarantined = [];
+  const notSeen = [];
+  let cancelled = false;
+
+  for (const { jobName, scope, entries: jobEntries } of byScope.values()) {
+    if (context.signal?.aborted) {
+      cancelled = true;
+      break;
+    }
+
+    const matcher = parseJobPattern(jobName);
+    if (!matcher) {
+      unchecked.push(...jobEntries.map(describeEntry));
+      continue;
+    }
+
+    const { jobRuns, cancelled: jobCancelled } = await getRecentJobTestRuns(client, matcher, scope, days, 30, context);
+    cancelled ||= jobCancelled;
+
+    for (const entry of jobEntries) {
+      // Results newest first
+      const results = jobRuns.flatMap(({ run, tests }) =>
+        (tests ?? [])
+          .filter((t) => t.test_status !== 'skip' && isSameTest(entry, { suite: t.test_suite, name: t.test_name }))
+          .map((t) => ({ status: t.test_status, date: run.created_at }))
+      );
+
+      const firstFailure = results.findIndex((r) => r.status === 'fail');
+      const streak = firstFailure === -1 ? results.length : firstFailure;
+      const status = {
+        ...describeEntry(entry),
+        consecutive_passes: streak,
+        runs_checked: results.length,
+        last_failure: firstFailure === -1 ? null : results[firstFailure]?.date ?? null,
+      };
+
+      if (results.length === 0) notSeen.push(status);
+      else if (streak >= required) ready.push(status);
+      else stillQuarantined.push(status);
+    }
+  }
+
+  const expired = entries.filter((e) => isExpired(e)).map(describeEntry);
+
+  return {
+    summary: {
+      quarantined: entries.length,
+      required_consecutive_passes: required,
+      ready_to_release: ready.length,
+      still_failing: stillQuarantined.length,
+      not_seen: notSeen.length,
+      expired: expired.length,
+      ...(cancelled && { cancelled: true }),
+    },
+    ready_to_release: ready,
+    still_quarantined: stillQuarantined,
+    not_seen: notSeen,
+    expired,
+    ...(unchecked.length > 0 && { unchecked }),
+    insight: ready.length > 0
+      ? `${ready.length} test(s) passed ${required}+ times in a row and can be released: ${ready.map((r) => r.name).slice(0, 5).join(', ')}.`
+      : `No quarantined tests have passed ${required} times in a row yet.` +
+        (unchecked.length > 0 ? ` ${unchecked.length} entr${unchecked.length === 1 ? 'y has' : 'ies have'} no job_name; pass job_name to check them.` : ''),
+  };
+}
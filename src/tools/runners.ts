@@ -0,0 +1,316 @@
+/**
+ * Runner sizing tools — compare VM metrics against runner sizes.
+ */
+
+import { z } from 'zod';
+import type { BlacksmithClient } from '../client.js';
+import type { JobSummary } from '../types/blacksmith.js';
+import { getDefaultDateRange } from '../utils/dates.js';
+import { isRunCompleted } from '../utils/runs.js';
+import {
+  summarizeSeries,
+  getRunnerSpec,
+  memoryToPercent,
+  estimateJobCost,
+  resizeRunnerLabel,
+  parseRunnerLabel,
+  resolveJobVmId,
+  pickRunnerSize,
+  type RunnerSpec,
+} from '../utils/metrics.js';
+import { invalidJobPattern, parseJobPattern } from '../utils/jobs.js';
+import { logger } from '../utils/logger.js';
+import { mapWithConcurrency, collectSettled } from '../utils/concurrency.js';
+import type { ToolContext } from './context.js';
+
+export const recommendRunnerSizesSchema = z.object({
+  workflow_name: z.string().describe('Workflow name to analyze (e.g., "CI")'),
+  repository: z.string().optional().describe('Repository to scope runs to (e.g., "Org/repo")'),
+  job_name: z
+    .string()
+    .optional()
+    .describe('Only analyze jobs with this name, a glob like "Test (shard *)", or a /regex/ (default: all jobs)'),
+  days: z.number().optional().describe('Number of days of runs to sample (default: 7)'),
+  samples_per_job: z
+    .number()
+    .optional()
+    .describe('Number of recent runs to sample per job name (default: 5, max: 10)'),
+});
+
+// Target utilization when sizing: leave headroom so jobs don't saturate.
+const TARGET_CPU_UTILIZATION = 0.75;
+const TARGET_MEMORY_UTILIZATION = 0.8;
+const CPU_SATURATED_PERCENT = 85;
+
+// Runs listed to find samples and estimate how often the workflow runs
+const RUN_LIST_LIMIT = 500;
+
+interface JobSample {
+  run_id: string;
+  runtime_seconds: number;
+  spec: RunnerSpec;
+  cpu_peak: number;
+  cpu_mean: number;
+  cpu_saturated_fraction: number;
+  memory_peak: number | null;
+}
+
+export async function recommendRunnerSizes(
+  client: BlacksmithClient,
+  args: z.infer<typeof recommendRunnerSizesSchema>,
+  context: ToolContext = {}
+) {
+  const days = args.days ?? 7;
+  const samplesPerJob = Math.min(args.samples_per_job ?? 5, 10);
+  const { startDate, endDate } = getDefaultDateRange(days);
+  const matcher = parseJobPattern(args.job_name);
+  if (!matcher) return invalidJobPattern(args.job_name);
+
+  const runs = await client.listRuns({
+    startDate,
+    endDate,
+    workflows: [args.workflow_name],
+    repositories: args.repository ? [args.repository] : undefined,
+    limit: RUN_LIST_LIMIT,
+    signal: context.signal,
+  });
+
+  const completedRuns = runs
+    .filter(isRunCompleted)
+    .sort((a, b) => {
+      const dateA = a.created_at ? new Date(a.created_at).getTime() : 0;
+      const dateB = b.created_at ? new Date(b.created_at).getTime() : 0;
+      return dateB - dateA;
+    });
+
+  if (completedRuns.length === 0) {
+    return {
+      error: `No completed runs of workflow "${args.workflow_name}" in the last ${days} days`,
+      suggestion: 'Verify the workflow name with get_run_filter_options, or increase days.',
+    };
+  }
+
+  // A capped listing only reaches back as far as its oldest run
+  const oldest = completedRuns[completedRuns.length - 1]?.created_at;
+  const listedDays = runs.length >= RUN_LIST_LIMIT && oldest
+    ? Math.max(1 / 24, (Date.now() - new Date(oldest).getTime()) / (24 * 60 * 60 * 1000))
+    : days;
+
+  // Collect recent successful jobs per job name, most recent runs first
+  const jobsByName = new Map<string, { runId: string; job: JobSummary }[]>();
+  const appearances = new Map<string, number>();
+  const scanned = collectSettled(await mapWithConcurrency(
+    completedRuns.slice(0, samplesPerJob * 2),
+    async (run) => ({ run, detail: await client.getRun(String(run.id)) }),
+    { signal: context.signal }
+  )).values;
+  const runsScanned = scanned.length;
+  for (const { run, detail: runDetail } of scanned) {
+    for (const job of runDetail.jobs ?? []) {
+      if (!matcher.matches(job.name)) continue;
+      appearances.set(job.name, (appearances.get(job.name) ?? 0) + 1);
+      if (job.conclusion !== 'success' || !getRunnerSpec(job.labels)) continue;
+
+      const existing = jobsByName.get(job.name) ?? [];
+      if (existing.length < samplesPerJob) {
+        existing.push({ runId: String(run.id), job });
+        jobsByName.set(job.name, existing);
+      }
+    }
+  }
+
+  const recommendations = [];
+  const skipped: { job_name: string; reason: string }[] = [];
+
+  for (const [jobName, entries] of jobsByName) {
+    const results = await mapWithConcurrency(
+      entries,
+      async ({ runId, job }): Promise<JobSample | null> => {
+        const spec = getRunnerSpec(job.labels);
+        if (!spec) return null;
+
+        const vmId = await resolveJobVmId(client, job);
+        if (!vmId) return null;
+
+        const metrics = await client.getJobMetrics(runId, String(job.id), vmId);
+        const cpuSeries = metrics.cpu ?? [];
+        const cpu = summarizeSeries(cpuSeries);
+        const memorySeries = memoryToPercent(metrics.memory ?? [], spec.memory_gb);
+        const memory = memorySeries ? summarizeSeries(memorySeries) : null;
+        if (!cpu) return null;
+
+        const saturated = cpuSeries.filter((p) => p.value >= CPU_SATURATED_PERCENT).length;
+        return {
+          run_id: runId,
+          runtime_seconds: job.runtime_seconds ?? 0,
+          spec,
+          cpu_peak: cpu.peak,
+          cpu_mean: cpu.mean,
+          cpu_saturated_fraction: cpuSeries.length > 0 ? saturated / cpuSeries.length : 0,
+          memory_peak: memory?.peak ?? null,
+        };
+      },
+      { signal: context.signal }
+    );
+
+    const samples: JobSample[] = [];
+    results.forEach((result, i) => {
+      if (result.status === 'fulfilled') {
+        if (result.value) samples.push(result.value);
+      } else {
+        const entry = entries[i];
+        logger.debug(`Failed to fetch metrics for job ${entry?.job.id} in run ${entry?.runId}`, result.reason);
+      }
+    });
+
+    if (samples.length === 0) {
+      skipped.push({ job_name: jobName, reason: 'No VM metrics available for sampled runs' });
+      continue;
+    }
+
+    // Scale per-run cost to a month using how often this job appears in the workflow
+    const runsPerMonth = (completedRuns.length / listedDays) * 30 *
+      ((appearances.get(jobName) ?? 0) / runsScanned);
+    const recommendation = buildRecommendation(jobName, samples, runsPerMonth);
+    if (recommendation) recommendations.push(recommendation);
+  }
+
+  // Biggest savings first
+  recommendations.sort((a, b) =>
+    a.estimated_cost_change_per_month - b.estimated_cost_change_per_month
+  );
+
+  const runnerTypes = await client.getJobsRunnerTypes(startDate, endDate).catch(() => null);
+
+  const downsizes = recommendations.filter((r) => r.action === 'downsize');
+  const upsizes = recommendations.filter((r) => r.action === 'upsize');
+  const oversized = recommendations.filter((r) => r.action === 'exceeds_largest_size');
+  const monthlySavings = downsizes.reduce((sum, r) => sum - r.estimated_cost_change_per_month, 0);
+
+  return {
+    summary: {
+      workflow: args.workflow_name,
+      date_range: { start: startDate, end: endDate },
+      runs_scanned: runsScanned,
+      jobs_analyzed: recommendations.length,
+      downsize_candidates: downsizes.length,
+      upsize_candidates: upsizes.length,
+      ...(oversized.length > 0 && { exceeds_largest_size: oversized.length }),
+      estimated_monthly_savings: Math.round(monthlySavings * 100) / 100,
+    },
+    recommendations,
+    skipped: skipped.length > 0 ? skipped : undefined,
+    runner_types_in_use: runnerTypes,
+    insight: recommendations.length === 0
+      ? 'No jobs with Blacksmith runner labels and VM metrics were found for this workflow.'
+      : downsizes.length > 0
+        ? `${downsizes.length} job(s) could run on smaller runners, saving ~$${monthlySavings.toFixed(2)}/month at current volume.`
+        : upsizes.length > 0
+          ? `${upsizes.length} job(s) are resource-bound and would likely run faster on larger runners.`
+          : oversized.length > 0
+            ? `${oversized.length} job(s) need more than the largest runner size; consider splitting them into parallel jobs.`
+            : 'All sampled jobs look appropriately sized.',
+  };
+}
+
+/**
+ * Pick the smallest runner that keeps peak usage under target utilization,
+ * and estimate the cost and time change of moving to it. Returns null without samples.
+ */
+function buildRecommendation(
+  jobName: string,
+  samples: JobSample[],
+  runsPerMonth: number
+) {
+  if (samples.length === 0) return null;
+
+  // Use the most common runner across samples as the current runner
+  const labelCounts = new Map<string, number>();
+  for (const s of samples) {
+    labelCounts.set(s.spec.label, (labelCounts.get(s.spec.label) ?? 0) + 1);
+  }
+  const currentLabel = [...labelCounts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+  const current = samples.find((s) => s.spec.label === currentLabel)?.spec;
+  if (!current) return null;
+
+  const avg = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+  const peakCpu = Math.max(...samples.map((s) => s.cpu_peak));
+  const meanCpu = avg(samples.map((s) => s.cpu_mean));
+  const memoryPeaks = samples.map((s) => s.memory_peak).filter((m): m is number => m !== null);
+  const peakMemory = memoryPeaks.length > 0 ? Math.max(...memoryPeaks) : null;
+  const saturatedFraction = avg(samples.map((s) => s.cpu_saturated_fraction));
+  const runtimeSeconds = avg(samples.map((s) => s.runtime_seconds));
+
+  // Cores and RAM actually needed at peak, with headroom; memory is unknown without samples
+  const neededVcpus = (current.vcpus * peakCpu) / 100 / TARGET_CPU_UTILIZATION;
+  const neededMemoryGb = peakMemory !== null
+    ? (current.memory_gb * peakMemory) / 100 / TARGET_MEMORY_UTILIZATION
+    : null;
+
+  const sizing = pickRunnerSize(current, {
+    vcpus: neededVcpus,
+    memoryGb: neededMemoryGb,
+    saturatedFraction,
+  });
+  const target = parseRunnerLabel(resizeRunnerLabel(current.label, sizing.vcpus)) ?? current;
+
+  // Time model: downsizing only slows the job if average busy cores exceed the
+  // new runner; upsizing speeds up the CPU-saturated portion proportionally.
+  let estimatedRuntime = runtimeSeconds;
+  if (target.vcpus < current.vcpus) {
+    const busyCores = (current.vcpus * meanCpu) / 100;
+    const usable = target.vcpus * (CPU_SATURATED_PERCENT / 100);
+    if (busyCores > usable) estimatedRuntime = runtimeSeconds * (busyCores / usable);
+  } else if (target.vcpus > current.vcpus) {
+    estimatedRuntime = runtimeSeconds *
+      (1 - saturatedFraction + saturatedFraction * (current.vcpus / target.vcpus));
+  }
+
+  const currentCost = estimateJobCost(current, runtimeSeconds);
+  const targetCost = estimateJobCost(target, estimatedRuntime);
+
+  const costChangePerRun = targetCost - currentCost;
+
+  const action = sizing.exceedsLargest
+    ? 'exceeds_largest_size'
+    : target.vcpus < current.vcpus
+      ? 'downsize'
+      : target.vcpus > current.vcpus ? 'upsize' : 'keep';
+  const neededSize = Math.ceil(Math.max(neededVcpus, (neededMemoryGb ?? 0) / (current.memory_gb / current.vcpus)));
+  const memoryUnknown = peakMemory === null
+    ? ' Memory usage is unknown, so no smaller runner is recommended.'
+    : '';
+
+  return {
+    job_name: jobName,
+    action,
+    current_runner: current.label,
+    recommended_runner: target.label,
+    samples: samples.length,
+    cpu_peak_percent: peakCpu,
+    cpu_mean_percent: Math.round(meanCpu * 100) / 100,
+    cpu_saturated_percent_of_time: Math.round(saturatedFraction * 100),
+    memory_peak_percent: peakMemory,
+    ...(peakMemory === null && { memory_usage: 'unknown' }),
+    avg_runtime_seconds: Math.round(runtimeSeconds),
+    estimated_runtime_seconds: Math.round(estimatedRuntime),
+    estimated_time_change_percent: runtimeSeconds > 0
+      ? Math.round(((estimatedRuntime - runtimeSeconds) / runtimeSeconds) * 100)
+      : 0,
+    estimated_cost_per_run: {
+      current: Math.round(currentCost * 10000) / 10000,
+      recommended: Math.round(targetCost * 10000) / 10000,
+    },
+    estimated_cost_change_per_month: Math.round(costChangePerRun * runsPerMonth * 100) / 100,
+    reason: action === 'exceeds_largest_size'
+      ? (neededSize > target.vcpus
+        ? `Peak usage needs about ${neededSize} vCPU, more than the largest runner (${target.vcpus} vCPU).`
+        : `CPU is saturated ${Math.round(saturatedFraction * 100)}% of the time even at the largest runner size (${target.vcpus} vCPU).`) +
+        ' Consider splitting the job into parallel jobs.'
+      : action === 'downsize'
+        ? `Peak CPU ${peakCpu}%, peak memory ${peakMemory}% on ${current.vcpus} vCPU leaves most of the runner idle.`
+        : action === 'upsize'
+          ? `CPU is saturated ${Math.round(saturatedFraction * 100)}% of the time${peakMemory !== null && peakMemory >= 90 ? ` and memory peaks at ${peakMemory}%` : ''}.${memoryUnknown}`
+          : `Current runner size matches observed usage.${memoryUnknown}`,
+  };
+}
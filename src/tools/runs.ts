@@ -5,11 +5,20 @@
 import { z } from 'zod';
 import type { BlacksmithClient } from '../client.js';
 import { getDefaultDateRange } from '../utils/dates.js';
+import { collectPages, decodeCursor, encodeCursor } from '../utils/pagination.js';
+import type { WorkflowRun } from '../types/blacksmith.js';
+import type { ToolContext } from './context.js';
 
 export const listRunsSchema = z.object({
   start_date: z.string().optional().describe('Start date (YYYY-MM-DD)'),
   end_date: z.string().optional().describe('End date (YYYY-MM-DD)'),
-  limit: z.number().optional().describe('Maximum number of runs to return'),
+  limit: z.number().optional().describe('Runs per page (default: 50, max: 100)'),
+  page: z.number().optional().describe('Page number (default: 1)'),
+  cursor: z.string().optional().describe('Cursor from a previous response to fetch the next page; overrides page'),
+  count_total: z
+    .boolean()
+    .optional()
+    .describe('Count every matching run for total_matching by fetching the remaining pages (slower; default: false)'),
   status: z
     .enum(['success', 'failure', 'cancelled', 'skipped', 'in_progress'])
     .optional()
@@ -43,23 +52,33 @@ export const getRunTestsSchema = z.object({
 
 export async function listRuns(
   client: BlacksmithClient,
-  args: z.infer<typeof listRunsSchema>
+  args: z.infer<typeof listRunsSchema>,
+  context: ToolContext = {}
 ) {
   // Use defaults if dates not provided
   const defaults = getDefaultDateRange();
   const startDate = args.start_date || defaults.startDate;
   const endDate = args.end_date || defaults.endDate;
+  const limit = Math.min(Math.max(args.limit ?? 50, 1), 100);
+
+  const position = args.cursor ? decodeCursor(args.cursor) : { page: args.page ?? 1, cursor: null };
+  if (!position) {
+    return {
+      error: `Invalid cursor: ${args.cursor}`,
+      suggestion: 'Pass the cursor exactly as returned by a previous list_runs call, or use page instead.',
+    };
+  }
 
   // Pass filters to API (server-side filtering)
   // API uses statuses[] array param with values: success, failure, cancelled, skipped, in_progress
-  let runs = await client.listRuns({
+  const filters = {
     startDate,
     endDate,
     statuses: args.status ? [args.status] : undefined,
     branches: args.branch ? [args.branch] : undefined,
     workflows: args.workflow_name ? [args.workflow_name] : undefined,
     users: args.actor ? [args.actor] : undefined,
-  });
+  };
 
   // Track filters for response
   const filtersApplied: string[] = [];
@@ -68,16 +87,52 @@ export async function listRuns(
   if (args.workflow_name) filtersApplied.push(`workflow=${args.workflow_name}`);
   if (args.actor) filtersApplied.push(`actor=${args.actor}`);
 
-  // Client-side filtering for PR number (API doesn't seem to support this)
+  let runs: WorkflowRun[];
+  let totalMatching: number;
+  let totalComplete = true;
+  let totalCounted = true;
+  let hasMore: boolean;
+  let cursor: string | null;
+
   if (args.pr_number) {
-    runs = runs.filter(r => r.pull_request?.number === args.pr_number);
+    // Client-side filtering for PR number (API doesn't seem to support this),
+    // so stream every page and paginate the matches here
+    const all = await collectPages(client.paginateRuns(filters, { signal: context.signal }));
+    const matching = all.items.filter(r => r.pull_request?.number === args.pr_number);
     filtersApplied.push(`pr=#${args.pr_number}`);
-  }
 
-  // Apply limit after filtering
-  const totalBeforeLimit = runs.length;
-  if (args.limit && runs.length > args.limit) {
-    runs = runs.slice(0, args.limit);
+    const offset = (position.page - 1) * limit;
+    runs = matching.slice(offset, offset + limit);
+    totalMatching = matching.length;
+    totalComplete = all.complete;
+    hasMore = offset + limit < matching.length;
+    cursor = hasMore ? encodeCursor(position.page + 1) : null;
+  } else {
+    const page = await client.listRunsPage(filters, { page: position.page, perPage: limit, cursor: position.cursor });
+    runs = page.items;
+    hasMore = page.hasMore;
+    cursor = page.cursor;
+
+    if (page.totalCount !== null) {
+      totalMatching = page.totalCount;
+    } else if (!page.hasMore || !args.count_total) {
+      // Without a server total, counting the rest costs a request per page, so only on request
+      totalMatching = (position.page - 1) * limit + page.items.length;
+      totalComplete = !page.hasMore;
+      totalCounted = !page.hasMore;
+    } else {
+      // The runs endpoint doesn't report a total, so count the remaining pages.
+      // Runs repeated from this page mean the endpoint ignored the page number.
+      const rest = await collectPages(client.paginateRuns(filters, { cursor: page.cursor, perPage: limit, signal: context.signal }));
+      const seen = new Set(page.items.map(r => String(r.id)));
+      const remaining = rest.items.filter(r => !seen.has(String(r.id))).length;
+      totalMatching = (position.page - 1) * limit + page.items.length + remaining;
+      totalComplete = rest.complete;
+      if (remaining === 0) {
+        hasMore = false;
+        cursor = null;
+      }
+    }
   }
 
   return {
@@ -98,9 +153,18 @@ export async function listRuns(
       github_url: run.github_url,
     })),
     total_count: runs.length,
-    total_matching: totalBeforeLimit,
+    total_matching: totalMatching,
+    ...(!totalComplete && { total_matching_is_lower_bound: true }),
+    page: position.page,
+    has_more: hasMore,
+    cursor,
     filters_applied: filtersApplied.length > 0 ? filtersApplied : undefined,
     date_range: { start: startDate, end: endDate },
+    ...(!totalComplete && {
+      note: totalCounted
+        ? 'The API stopped paging before every run was counted; narrow the date range or filters for an exact total.'
+        : 'total_matching only counts runs up to this page; pass count_total: true to count every matching run.',
+    }),
   };
 }
 
@@ -0,0 +1,468 @@
+/**
+ * Spend tools — forecasts and cost attribution built from invoice, usage
+ * and job history.
+ */
+
+import { z } from 'zod';
+import type { BlacksmithClient } from '../client.js';
+import type { RunDetailResponse, WorkflowRun } from '../types/blacksmith.js';
+import type { ToolContext } from './context.js';
+import {
+  DAY_MS,
+  FORECAST_CONFIDENCE,
+  getBillingPeriod,
+  getPreviousPeriod,
+  meanAndStdev,
+  parseDailyActivity,
+  projectTotal,
+  roundDollars,
+  sumActivity,
+  type DailyActivity,
+  type Range,
+} from '../utils/billing.js';
+import { LIST_PRICE_PER_BILLABLE_MINUTE, toBilledMinutes } from '../utils/metrics.js';
+import { loadPriceTableFromEnv } from '../utils/pricing.js';
+import { isRunCompleted } from '../utils/runs.js';
+import { mapWithConcurrency, collectSettled } from '../utils/concurrency.js';
+import { formatErrorResponse } from '../utils/errors.js';
+
+export const forecastSpendSchema = z.object({
+  lookback_days: z
+    .number()
+    .optional()
+    .describe('Number of recent complete days used to estimate the daily rate (default: 14)'),
+});
+
+// Assumed day-to-day variation when there is no daily history to measure it
+const LINEAR_FORECAST_SPREAD = 0.25;
+
+export type SpendForecast = Awaited<ReturnType<typeof buildSpendForecast>>;
+
+/**
+ * Project end-of-period billable minutes and invoice.
+ *
+ * Daily job activity is calibrated against the minutes billed so far this
+ * period, so the projection follows recent activity while staying in
+ * billable-minute units. Without usable history it extrapolates linearly.
+ */
+export async function buildSpendForecast(client: BlacksmithClient, options: { lookbackDays?: number } = {}) {
+  const lookbackDays = Math.max(1, Math.round(options.lookbackDays ?? 14));
+  const now = new Date();
+  const [invoice, usage] = await Promise.all([client.getInvoiceAmount(), client.getUsageSummary()]);
+
+  const period = getBillingPeriod(invoice, now);
+  const previous = getPreviousPeriod(period);
+  const warnings: string[] = [];
+
+  let series: DailyActivity[] = [];
+  try {
+    series = parseDailyActivity(await client.getJobsDaily(previous.start.toISOString(), now.toISOString()));
+  } catch (error) {
+    warnings.push(`Daily job history unavailable (${formatErrorResponse(error).message}); projecting linearly.`);
+  }
+
+  const periodDays = (period.end.getTime() - period.start.getTime()) / DAY_MS;
+  const elapsedDays = Math.min(periodDays, Math.max(0, (now.getTime() - period.start.getTime()) / DAY_MS));
+  const remainingDays = Math.max(0, (period.end.getTime() - now.getTime()) / DAY_MS);
+
+  const billable = usage.billable_minutes;
+  const free = usage.free_minutes;
+  const overage = Math.max(0, billable - free);
+
+  // Billable minutes per unit of daily activity, from this period so far
+  const today = new Date(`${now.toISOString().slice(0, 10)}T00:00:00Z`);
+  const tomorrow = new Date(today.getTime() + DAY_MS);
+  const activityThisPeriod = sumActivity(series, period.start, tomorrow);
+  const ratio = activityThisPeriod > 0 && billable > 0 ? billable / activityThisPeriod : null;
+
+  let daily: { mean: number; stdev: number };
+  let method: 'daily_history' | 'linear';
+  if (ratio !== null) {
+    // Recent complete days; days without entries had no jobs
+    const activityByDate = new Map(series.map((day) => [day.date, day.value]));
+    const window = Array.from({ length: lookbackDays }, (_, i) => {
+      const date = new Date(today.getTime() - (i + 1) * DAY_MS).toISOString().slice(0, 10);
+      return (activityByDate.get(date) ?? 0) * ratio;
+    });
+    daily = meanAndStdev(window);
+    method = 'daily_history';
+  } else {
+    const mean = billable / Math.max(1, elapsedDays);
+    daily = { mean, stdev: mean * LINEAR_FORECAST_SPREAD };
+    method = 'linear';
+    if (warnings.length === 0) {
+      warnings.push('No daily job activity matched this period; projecting linearly from minutes billed so far.');
+    }
+  }
+
+  // Effective price from the invoice once there is overage, list price otherwise
+  const pricePerMinute = overage > 0 && invoice.amount > 0 ? invoice.amount / overage : LIST_PRICE_PER_BILLABLE_MINUTE;
+  const invoiceAt = (minutes: number) =>
+    roundDollars(invoice.amount + (Math.max(0, minutes - free) - overage) * pricePerMinute);
+
+  const additional = projectTotal(daily, remainingDays);
+  const minutesRange: Range = {
+    expected: Math.round(billable + additional.expected),
+    low: Math.round(billable + additional.low),
+    high: Math.round(billable + additional.high),
+  };
+
+  // When free minutes run out
+  let freeMinutes: { status: 'already_exhausted' | 'expected' | 'not_expected_this_period'; date: string | null };
+  if (billable >= free) {
+    let cumulative = 0;
+    const crossed = ratio !== null
+      ? series
+        .filter((day) => day.date >= period.start.toISOString().slice(0, 10))
+        .find((day) => (cumulative += day.value * ratio) >= free)
+      : undefined;
+    freeMinutes = { status: 'already_exhausted', date: crossed?.date ?? null };
+  } else if (daily.mean > 0 && now.getTime() + ((free - billable) / daily.mean) * DAY_MS < period.end.getTime()) {
+    const date = new Date(now.getTime() + ((free - billable) / daily.mean) * DAY_MS);
+    freeMinutes = { status: 'expected', date: date.toISOString().slice(0, 10) };
+  } else {
+    freeMinutes = { status: 'not_expected_this_period', date: null };
+  }
+
+  // Previous period, estimated from its job activity at this period's rate
+  const previousActivity = sumActivity(series, previous.start, previous.end);
+  const previousMinutes = ratio !== null && previousActivity > 0 ? Math.round(previousActivity * ratio) : null;
+  const previousInvoice = previousMinutes !== null
+    ? roundDollars(Math.max(0, previousMinutes - free) * pricePerMinute)
+    : null;
+
+  const percentChange = (current: number, before: number | null) =>
+    before ? Math.round(((current - before) / before) * 1000) / 10 : null;
+
+  return {
+    period: {
+      start: period.start.toISOString(),
+      end: period.end.toISOString(),
+      elapsed_days: Math.round(elapsedDays * 10) / 10,
+      remaining_days: Math.round(remainingDays * 10) / 10,
+    },
+    current: {
+      invoice_dollars: roundDollars(invoice.amount),
+      currency: invoice.currency || 'USD',
+      billable_minutes: billable,
+      free_minutes: free,
+      remaining_free_minutes: Math.max(0, free - billable),
+    },
+    forecast: {
+      method,
+      confidence: FORECAST_CONFIDENCE,
+      daily_billable_minutes: { mean: Math.round(daily.mean), stdev: Math.round(daily.stdev) },
+      billable_minutes: minutesRange,
+      invoice_dollars: {
+        expected: invoiceAt(minutesRange.expected),
+        low: invoiceAt(minutesRange.low),
+        high: invoiceAt(minutesRange.high),
+      },
+      price_per_minute: Math.round(pricePerMinute * 100000) / 100000,
+      price_source: overage > 0 && invoice.amount > 0 ? 'invoice' : 'list_price',
+    },
+    free_minutes_exhausted: freeMinutes,
+    previous_period: previousMinutes !== null
+      ? {
+        start: previous.start.toISOString(),
+        end: previous.end.toISOString(),
+        estimated_billable_minutes: previousMinutes,
+        estimated_invoice_dollars: previousInvoice,
+        minutes_change_percent: percentChange(minutesRange.expected, previousMinutes),
+        invoice_change_percent: percentChange(invoiceAt(minutesRange.expected), previousInvoice),
+      }
+      : null,
+    ...(warnings.length > 0 && { warnings }),
+  };
+}
+
+export async function forecastSpend(
+  client: BlacksmithClient,
+  args: z.infer<typeof forecastSpendSchema>
+) {
+  const result = await buildSpendForecast(client, { lookbackDays: args.lookback_days });
+  const { forecast, current, free_minutes_exhausted: freeMinutes, previous_period: previous } = result;
+
+  const parts = [
+    `Projected end-of-period invoice: $${forecast.invoice_dollars.expected.toFixed(2)} ${current.currency} ` +
+      `(${Math.round(FORECAST_CONFIDENCE * 100)}% range $${forecast.invoice_dollars.low.toFixed(2)}–$${forecast.invoice_dollars.high.toFixed(2)}), ` +
+      `currently $${current.invoice_dollars.toFixed(2)}.`,
+  ];
+  if (freeMinutes.status === 'expected') {
+    parts.push(`Free minutes are expected to run out on ${freeMinutes.date}.`);
+  } else if (freeMinutes.status === 'already_exhausted') {
+    parts.push(`Free minutes already ran out${freeMinutes.date ? ` on ${freeMinutes.date}` : ''}.`);
+  }
+  const change = previous?.minutes_change_percent ?? null;
+  if (change !== null) {
+    parts.push(`Usage is tracking ${Math.abs(change)}% ${change >= 0 ? 'above' : 'below'} the previous period.`);
+  }
+
+  return {
+    ...result,
+    insight: parts.join(' '),
+  };
+}
+
+// ==================== Cost Attribution ====================
+
+export const getCostBreakdownSchema = z.object({
+  group_by: z
+    .enum(['repository', 'workflow', 'branch', 'actor', 'runner'])
+    .optional()
+    .describe('Dimension to attribute cost to (default: repository)'),
+  start_date: z
+    .string()
+    .optional()
+    .describe('Start date (YYYY-MM-DD). Defaults to the start of the current billing period.'),
+  end_date: z.string().optional().describe('End date (YYYY-MM-DD). Defaults to now.'),
+  repository: z.string().optional().describe('Only include runs from this repository (e.g., "Org/repo")'),
+  top_n: z.number().optional().describe('Number of top entries to return (default: 20)'),
+  max_runs: z
+    .number()
+    .optional()
+    .describe('Maximum runs to price, sampled evenly across the range; totals are scaled up when more runs matched (default: 50)'),
+});
+
+export type CostDimension = NonNullable<z.infer<typeof getCostBreakdownSchema>['group_by']>;
+
+interface CostBucket {
+  jobs: number;
+  minutes: number;
+  cost: number;
+}
+
+/**
+ * Get the value of a cost dimension for a run.
+ */
+function runDimension(run: WorkflowRun, detail: RunDetailResponse, dimension: Exclude<CostDimension, 'runner'>): string {
+  switch (dimension) {
+    case 'repository':
+      return run.repository_name || run.repository?.full_name || detail.repository_name || 'unknown';
+    case 'workflow':
+      return run.workflow_name || detail.workflow_name || run.name;
+    case 'branch':
+      return run.branch_name || run.head_branch || 'unknown';
+    case 'actor':
+      return run.actor?.login ?? 'unknown';
+  }
+}
+
+export type CostAttribution = Awaited<ReturnType<typeof attributeJobCosts>>;
+
+// Runs priced by default; each one costs a run detail request
+const DEFAULT_PRICED_RUNS = 50;
+
+// Runs listed to count and sample from; busier ranges are counted up to this
+const RUN_LIST_LIMIT = 2000;
+
+/**
+ * Pick up to `count` items spread evenly across a list, keeping their order.
+ */
+function sampleEvenly<T>(items: T[], count: number): T[] {
+  if (items.length <= count) return items;
+  const step = items.length / count;
+  return Array.from({ length: count }, (_, i) => items[Math.floor(i * step)] as T);
+}
+
+/**
+ * Price every job of the completed runs in a date range and total the cost
+ * by dimension. Prices a sample of `maxRuns` runs spread across the range;
+ * `scale` projects their totals onto every matching run.
+ */
+export async function attributeJobCosts(
+  client: BlacksmithClient,
+  options: {
+    startDate: string;
+    endDate: string;
+    groupBy: CostDimension;
+    repositories?: string[];
+    maxRuns?: number;
+    context?: ToolContext;
+  }
+) {
+  const { groupBy, context = {} } = options;
+  const prices = loadPriceTableFromEnv();
+
+  const listed = await client.listRuns({
+    startDate: options.startDate,
+    endDate: options.endDate,
+    repositories: options.repositories,
+    limit: RUN_LIST_LIMIT,
+    signal: context.signal,
+  });
+  const runs = listed
+    .filter(isRunCompleted)
+    .sort((a, b) => (b.created_at ?? '').localeCompare(a.created_at ?? ''));
+
+  const sampled = sampleEvenly(runs, Math.max(1, options.maxRuns ?? DEFAULT_PRICED_RUNS));
+  const results = await mapWithConcurrency(
+    sampled,
+    async (run) => ({ run, detail: await client.getRun(String(run.id)) }),
+    {
+      signal: context.signal,
+      onProgress: (done, total) =>
+        context.reportProgress?.(done, total, `Priced ${done}/${total} runs`),
+    }
+  );
+  const { values, errors, cancelled } = collectSettled(results);
+
+  const buckets = new Map<string, CostBucket>();
+  const unpriced = new Map<string, number>();
+  const total: CostBucket = { jobs: 0, minutes: 0, cost: 0 };
+  let pricedFromTable = 0;
+
+  for (const { run, detail } of values) {
+    for (const job of detail.jobs ?? []) {
+      if (!job.runtime_seconds) continue;
+      const minutes = toBilledMinutes(job.runtime_seconds);
+      const price = prices.priceFor(job.labels);
+
+      if (!price) {
+        const runner = job.labels?.join(', ') || 'unknown';
+        unpriced.set(runner, (unpriced.get(runner) ?? 0) + minutes);
+        continue;
+      }
+      if (price.source === 'price_table') pricedFromTable++;
+
+      const key = groupBy === 'runner' ? price.label : runDimension(run, detail, groupBy);
+      const bucket = buckets.get(key) ?? { jobs: 0, minutes: 0, cost: 0 };
+      bucket.jobs++;
+      bucket.minutes += minutes;
+      bucket.cost += minutes * price.per_minute;
+      buckets.set(key, bucket);
+
+      total.jobs++;
+      total.minutes += minutes;
+      total.cost += minutes * price.per_minute;
+    }
+  }
+
+  return {
+    prices,
+    runsMatched: runs.length,
+    // Only the newest RUN_LIST_LIMIT runs were listed, so runsMatched and scale are lower bounds
+    listingCapped: listed.length >= RUN_LIST_LIMIT,
+    runsPriced: values.length,
+    failedRuns: errors.length,
+    cancelled,
+    buckets,
+    unpriced,
+    total,
+    pricedFromTable,
+    // Scale sampled totals up to every matching run
+    scale: values.length > 0 ? runs.length / values.length : 1,
+  };
+}
+
+export async function getCostBreakdown(
+  client: BlacksmithClient,
+  args: z.infer<typeof getCostBreakdownSchema>,
+  context: ToolContext = {}
+) {
+  const groupBy = args.group_by ?? 'repository';
+  const topN = args.top_n ?? 20;
+
+  const [invoice, usage] = await Promise.all([client.getInvoiceAmount(), client.getUsageSummary()]);
+  const period = getBillingPeriod(invoice);
+  const isBillingPeriod = !args.start_date && !args.end_date;
+  const startDate = args.start_date ?? period.start.toISOString();
+  const endDate = args.end_date ?? new Date().toISOString();
+
+  const costs = await attributeJobCosts(client, {
+    startDate,
+    endDate,
+    groupBy,
+    repositories: args.repository ? [args.repository] : undefined,
+    maxRuns: args.max_runs,
+    context,
+  });
+  const { prices, buckets, unpriced, total } = costs;
+
+  if (costs.runsMatched === 0) {
+    return {
+      error: `No completed runs between ${startDate} and ${endDate}`,
+      suggestion: 'Widen the date range, or check the repository name with get_run_filter_options.',
+    };
+  }
+
+  const estimatedTotal = roundDollars(total.cost * costs.scale);
+
+  // The invoice only bills minutes beyond the free tier
+  let reconciliation = null;
+  if (isBillingPeriod) {
+    const freeCredit = usage.free_minutes * LIST_PRICE_PER_BILLABLE_MINUTE;
+    const estimatedInvoice = roundDollars(Math.max(0, estimatedTotal - freeCredit));
+    const difference = roundDollars(estimatedInvoice - invoice.amount);
+    reconciliation = {
+      invoice_dollars: roundDollars(invoice.amount),
+      estimated_gross_dollars: estimatedTotal,
+      free_tier_credit_dollars: roundDollars(freeCredit),
+      estimated_invoice_dollars: estimatedInvoice,
+      difference_dollars: difference,
+      difference_percent: invoice.amount > 0 ? Math.round((difference / invoice.amount) * 1000) / 10 : null,
+    };
+  }
+
+  const breakdown = [...buckets.entries()]
+    .sort(([, a], [, b]) => b.cost - a.cost)
+    .slice(0, topN)
+    .map(([key, bucket]) => ({
+      [groupBy]: key,
+      jobs: bucket.jobs,
+      billed_minutes: bucket.minutes,
+      cost_dollars: roundDollars(bucket.cost),
+      percent: total.cost > 0 ? Math.round((bucket.cost / total.cost) * 1000) / 10 : 0,
+    }));
+
+  const top = breakdown[0];
+  const insightParts = [
+    `$${roundDollars(total.cost).toFixed(2)} across ${total.jobs} jobs in ${costs.runsPriced} runs` +
+      (top ? `; ${top[groupBy]} is the most expensive ${groupBy} at ${top.percent}%.` : '.'),
+  ];
+  if (costs.runsPriced < costs.runsMatched) {
+    insightParts.push(`Priced a sample of ${costs.runsPriced} of ${costs.runsMatched} runs; estimated total for all runs is $${estimatedTotal.toFixed(2)}. Raise max_runs for a closer figure.`);
+  }
+  if (costs.listingCapped) {
+    insightParts.push(`Only the newest ${costs.runsMatched} runs were counted; narrow the date range or repository for a complete total.`);
+  }
+  const differencePercent = reconciliation?.difference_percent ?? null;
+  if (differencePercent !== null && Math.abs(differencePercent) > 20) {
+    insightParts.push(
+      `Estimate differs from the invoice by ${differencePercent}%; adjust BLACKSMITH_PRICES_FILE to match your contract.`
+    );
+  }
+
+  return {
+    date_range: { start: startDate, end: endDate },
+    group_by: groupBy,
+    price_table: {
+      file: prices.source,
+      entries: prices.size,
+      jobs_priced_from_table: costs.pricedFromTable,
+    },
+    summary: {
+      runs_matched: costs.runsMatched,
+      ...(costs.listingCapped && { runs_matched_is_lower_bound: true }),
+      runs_priced: costs.runsPriced,
+      // Figures below cover the priced runs only; estimated_total_dollars scales them to every run
+      sampled: costs.runsPriced < costs.runsMatched,
+      jobs: total.jobs,
+      billed_minutes: total.minutes,
+      cost_dollars: roundDollars(total.cost),
+      estimated_total_dollars: estimatedTotal,
+      unpriced_minutes: [...unpriced.values()].reduce((a, b) => a + b, 0),
+      ...(costs.failedRuns > 0 && { failed_runs: costs.failedRuns }),
+      ...(costs.cancelled && { cancelled: true }),
+    },
+    breakdown,
+    ...(unpriced.size > 0 && {
+      unpriced_runners: [...unpriced.entries()]
+        .sort(([, a], [, b]) => b - a)
+        .slice(0, 10)
+        .map(([labels, minutes]) => ({ labels, billed_minutes: minutes })),
+    }),
+    reconciliation,
+    insight: insightParts.join(' '),
+  };
+}
@@ -5,6 +5,15 @@
 import { z } from 'zod';
 import type { BlacksmithClient } from '../client.js';
 import { isRunCompleted } from '../utils/runs.js';
+import type { JobTestRun } from '../utils/history.js';
+import type { ToolContext } from './context.js';
+import { mapWithConcurrency, collectSettled, getConcurrencyLimit } from '../utils/concurrency.js';
+import type { TestResult, WorkflowRun } from '../types/blacksmith.js';
+import { describeJobPattern, invalidJobPattern, parseJobPattern, type JobMatcher } from '../utils/jobs.js';
+import { scoreFlakiness, type FlakeEvidence, type TestAttemptResult } from '../utils/flakiness.js';
+
+// Most recent runs listed per analysis; tools then fetch jobs for 20-30 of them
+const RUN_LIST_LIMIT = 200;
 
 export const getJobTestsSchema = z.object({
   run_id: z.string().describe('GitHub Actions workflow run ID'),
@@ -343,12 +352,45 @@ export const compareTestRunsSchema = z.object({
   base_run_id: z
     .string()
     .optional()
-    .describe('Base run ID to compare against. If not provided, compares against most recent prior run.'),
+    .describe('Base run ID to compare against. If not provided, compares against the most recent prior run of the same workflow on the base branch of the PR (or on the same branch outside PRs).'),
+  repository: z
+    .string()
+    .optional()
+    .describe('Repository to find the base run in (e.g., "Org/repo"; default: the repository of the current run)'),
+  workflow_name: z
+    .string()
+    .optional()
+    .describe('Workflow to find the base run in (default: the workflow of the current run)'),
+  branch: z
+    .string()
+    .optional()
+    .describe('Branch to find the base run on (default: the base branch of the PR, or the branch of the current run)'),
 });
 
+/**
+ * Pick the branch to find a run's comparison base on: the PR's base branch
+ * for pull request runs, otherwise the run's own branch.
+ */
+function getBaseBranch(run: WorkflowRun, workflowRuns: WorkflowRun[]): string | null {
+  const branch = run.branch_name || run.head_branch || null;
+  if (!run.pull_request && run.event !== 'pull_request') return branch;
+  if (run.pull_request?.base?.ref) return run.pull_request.base.ref;
+
+  // The runs listing doesn't always say which branch a PR targets; the branch
+  // the workflow runs on most outside PRs is almost always it
+  const counts = new Map<string, number>();
+  for (const r of workflowRuns) {
+    const b = r.branch_name || r.head_branch;
+    if (r.pull_request || r.event === 'pull_request' || !b || b === branch) continue;
+    counts.set(b, (counts.get(b) ?? 0) + 1);
+  }
+  return [...counts].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+}
+
 export async function compareTestRuns(
   client: BlacksmithClient,
-  args: z.infer<typeof compareTestRunsSchema>
+  args: z.infer<typeof compareTestRunsSchema>,
+  context: ToolContext = {}
 ) {
   // Get current run's jobs to find the matching job
   const currentRun = await client.getRun(args.run_id);
@@ -369,14 +411,34 @@ export async function compareTestRuns(
 
   // Find base run to compare against
   let baseRunId = args.base_run_id;
+  let baseBranch: string | null = null;
+  let workflow: string | null = null;
   if (!baseRunId) {
-    // Get recent runs and find the previous one
+    // Get recent runs of the same workflow and find the previous one on the base branch
     const endDate = new Date().toISOString();
     const startDate = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
-    const runs = await client.listRuns({ startDate, endDate });
+    workflow = args.workflow_name ?? currentRun.workflow_name ?? null;
+    const repository = args.repository ?? currentRun.repository_name;
+    const runs = await client.listRuns({
+      startDate,
+      endDate,
+      ...getRunFilters({ repository, workflow_name: workflow ?? undefined, branch: args.branch }),
+      limit: RUN_LIST_LIMIT,
+      signal: context.signal,
+    });
+
+    const current = runs.find((r) => String(r.id) === args.run_id);
+    baseBranch = args.branch ?? (current ? getBaseBranch(current, runs) : null);
+    const createdAt = current?.created_at ??
+      currentRun.attempts?.map((a) => a.created_at).sort()[0];
 
     const sortedRuns = runs
-      .filter((r) => String(r.id) !== args.run_id && isRunCompleted(r))
+      .filter((r) =>
+        String(r.id) !== args.run_id &&
+        isRunCompleted(r) &&
+        (!baseBranch || (r.branch_name || r.head_branch) === baseBranch) &&
+        (!createdAt || !r.created_at || r.created_at < createdAt)
+      )
       .sort((a, b) => {
         const dateA = a.created_at ? new Date(a.created_at).getTime() : 0;
         const dateB = b.created_at ? new Date(b.created_at).getTime() : 0;
@@ -385,8 +447,10 @@ export async function compareTestRuns(
 
     if (sortedRuns.length === 0) {
       return {
-        error: 'No previous completed runs found to compare against',
+        error: 'No previous completed runs found to compare against' +
+          (baseBranch ? ` on ${baseBranch}` : '') + (workflow ? ` for workflow "${workflow}"` : ''),
         current_failures: currentTests.total_count ?? 0,
+        suggestion: 'Pass base_run_id, or a branch or workflow_name to compare against.',
       };
     }
     const previousRun = sortedRuns[0];
@@ -439,6 +503,8 @@ export async function compareTestRuns(
     summary: {
       current_run: args.run_id,
       base_run: baseRunId,
+      ...(baseBranch && { base_branch: baseBranch }),
+      ...(workflow && { workflow }),
       current_failures: currentFailedSet.size,
       base_failures: baseFailedSet.size,
       new_failures: newFailures.length,
@@ -459,10 +525,277 @@ export async function compareTestRuns(
   };
 }
 
+// ==================== Local History ====================
+
+// Most runs fetched from the API to top up a synced range; a staler store falls back to the API
+const MAX_TOP_UP_RUNS = 20;
+
+/**
+ * Load matching jobs' runs from the local history store, newest first, with
+ * any runs since the last sync topped up from the API. Returns null when the
+ * store is disabled, sync_history hasn't covered the range, or the store is
+ * too far behind, so callers fall back to the API.
+ */
+async function getLocalJobTestRuns(
+  client: BlacksmithClient,
+  matcher: JobMatcher,
+  scope: RunScope,
+  startDate: string,
+  endDate: string,
+  requireTests: boolean,
+  context: ToolContext,
+  allAttempts = false
+): Promise<{ jobRuns: JobTestRun[]; failed: number; cancelled: boolean } | null> {
+  if (!client.history) return null;
+
+  // Backfills are org-wide, so a covered range covers every repository, workflow and branch
+  const syncedThrough = client.history.getSyncedThrough(client.getOrg(), startDate, endDate);
+  if (!syncedThrough) return null;
+
+  let topUp: { jobRuns: JobTestRun[]; failed: number; cancelled: boolean } = { jobRuns: [], failed: 0, cancelled: false };
+  if (syncedThrough < endDate) {
+    const runs = await client.listRuns({
+      startDate: syncedThrough,
+      endDate,
+      ...getRunFilters(scope),
+      limit: MAX_TOP_UP_RUNS + 1,
+      signal: context.signal,
+    });
+    if (runs.length > MAX_TOP_UP_RUNS) return null;
+
+    const completedRuns = runs
+      .filter(isRunCompleted)
+      .sort((a, b) => (b.created_at ?? '').localeCompare(a.created_at ?? ''));
+    topUp = await fetchJobTestRuns(client, completedRuns, matcher, requireTests, context, allAttempts);
+  }
+
+  const toppedUp = new Set(topUp.jobRuns.map(({ run }) => String(run.id)));
+  const stored = client.history
+    .getJobTestRuns({
+      org: client.getOrg(),
+      jobName: matcher.exact ?? undefined,
+      repository: scope.repository,
+      workflowName: scope.workflow_name,
+      branch: scope.branch,
+      startDate,
+      endDate: syncedThrough,
+    })
+    .filter((r) => !toppedUp.has(String(r.run.id)))
+    .filter((r) => matcher.matches(r.job.name) && (!requireTests || r.tests !== null));
+
+  return { ...topUp, jobRuns: keepTestJobs([...topUp.jobRuns, ...stored], matcher) };
+}
+
+/**
+ * Load matching jobs' recent runs with test results, newest first: from the
+ * local history store when it covers the range, otherwise the latest `maxRuns`
+ * runs in scope from the API.
+ */
+export async function getRecentJobTestRuns(
+  client: BlacksmithClient,
+  matcher: JobMatcher,
+  scope: RunScope,
+  days: number,
+  maxRuns: number,
+  context: ToolContext = {}
+): Promise<{ jobRuns: JobTestRun[]; source: 'local_history' | 'api'; failed: number; cancelled: boolean }> {
+  const endDate = new Date().toISOString();
+  const startDate = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+  const local = await getLocalJobTestRuns(client, matcher, scope, startDate, endDate, true, context);
+  if (local) {
+    return { ...local, source: 'local_history' };
+  }
+
+  const runs = (await client.listRuns({ startDate, endDate, ...getRunFilters(scope), limit: RUN_LIST_LIMIT, signal: context.signal }))
+    .filter(isRunCompleted)
+    .sort((a, b) => {
+      const dateA = a.created_at ? new Date(a.created_at).getTime() : 0;
+      const dateB = b.created_at ? new Date(b.created_at).getTime() : 0;
+      return dateB - dateA;
+    });
+  const fetched = await fetchJobTestRuns(client, runs.slice(0, maxRuns), matcher, true, context);
+  return { ...fetched, source: 'api' };
+}
+
+/**
+ * Without a job pattern, only jobs that reported test results are relevant.
+ */
+function keepTestJobs(jobRuns: JobTestRun[], matcher: JobMatcher): JobTestRun[] {
+  if (matcher.pattern !== null) return jobRuns;
+  return jobRuns.filter((r) => (r.tests?.length ?? 0) > 0 || (r.totalCount ?? 0) > 0);
+}
+
+/**
+ * Count the distinct workflow runs behind a set of job results.
+ */
+function countRuns(jobRuns: JobTestRun[]): number {
+  return new Set(jobRuns.map(({ run }) => String(run.id))).size;
+}
+
+/**
+ * List the distinct job names behind a set of job results.
+ */
+function listJobNames(jobRuns: JobTestRun[]): string[] {
+  return [...new Set(jobRuns.map(({ job }) => job.name))].sort();
+}
+
+/**
+ * Fetch one run's matching jobs (the first of each name) and optionally
+ * their test results. Returns an empty list if the run has no such job.
+ */
+async function fetchJobTestRun(
+  client: BlacksmithClient,
+  run: WorkflowRun,
+  matcher: JobMatcher,
+  withTests: boolean
+): Promise<JobTestRun[]> {
+  const runDetail = await client.getRun(String(run.id));
+  const jobs = (runDetail.jobs ?? []).filter((job, i, all) =>
+    matcher.matches(job.name) && all.findIndex(j => j.name === job.name) === i
+  );
+
+  if (!withTests) return jobs.map(job => ({ run, job, tests: null }));
+
+  const jobRuns = await Promise.all(jobs.map(async (job) => {
+    const tests = await client.getJobTests(String(run.id), String(job.id));
+    return { run, job, tests: tests.tests ?? [], totalCount: tests.total_count };
+  }));
+  return keepTestJobs(jobRuns, matcher);
+}
+
+/**
+ * Get the attempt number a job ran in.
+ */
+function jobAttempt({ run, job }: JobTestRun): number {
+  return job.workflow_run_attempt ?? run.run_attempt ?? 1;
+}
+
+/**
+ * Fetch matching jobs and their test results for every attempt of a run.
+ * Earlier attempts missing from the run detail are loaded from their own
+ * attempt records.
+ */
+async function fetchJobTestRunAttempts(
+  client: BlacksmithClient,
+  run: WorkflowRun,
+  matcher: JobMatcher
+): Promise<JobTestRun[]> {
+  const runDetail = await client.getRun(String(run.id));
+  const jobs = (runDetail.jobs ?? [])
+    .filter(j => matcher.matches(j.name))
+    .map(job => ({ runId: String(run.id), job }));
+  const seen = new Set(jobs.map(({ job }) => job.workflow_run_attempt ?? run.run_attempt ?? 1));
+  const jobIds = new Set(jobs.map(({ job }) => String(job.id)));
+
+  // Attempts are keyed by number: a re-run may keep the run's id, in which
+  // case its detail repeats jobs already seen, which are skipped by job id
+  const attempts = Array.isArray(runDetail.attempts) ? runDetail.attempts : [];
+  for (const attempt of attempts) {
+    if (typeof attempt.attempt !== 'number' || attempt.id === undefined || seen.has(attempt.attempt)) continue;
+    try {
+      const attemptDetail = String(attempt.id) === String(run.id) ? runDetail : await client.getRun(String(attempt.id));
+      const attemptJobs = (attemptDetail.jobs ?? []).filter(j =>
+        matcher.matches(j.name) &&
+        !jobIds.has(String(j.id)) &&
+        (j.workflow_run_attempt === undefined || j.workflow_run_attempt === attempt.attempt)
+      );
+      for (const job of attemptJobs) {
+        jobIds.add(String(job.id));
+        jobs.push({ runId: String(attempt.id), job: { ...job, workflow_run_attempt: job.workflow_run_attempt ?? attempt.attempt } });
+      }
+      if (attemptJobs.length > 0) seen.add(attempt.attempt);
+    } catch {
+      // Earlier attempts are extra evidence; the latest attempt still counts
+    }
+  }
+
+  const jobRuns = await Promise.all(jobs.map(async ({ runId, job }) => {
+    const tests = await client.getJobTests(runId, String(job.id));
+    return { run, job, tests: tests.tests ?? [], totalCount: tests.total_count };
+  }));
+  return keepTestJobs(jobRuns, matcher);
+}
+
+/**
+ * Fetch matching jobs' results across many runs in parallel (bounded),
+ * preserving run order. Runs that fail to load are counted rather than
+ * failing the whole analysis. With `allAttempts`, every attempt of a re-run is included.
+ */
+async function fetchJobTestRuns(
+  client: BlacksmithClient,
+  runs: WorkflowRun[],
+  matcher: JobMatcher,
+  withTests: boolean,
+  context: ToolContext,
+  allAttempts = false
+): Promise<{ jobRuns: JobTestRun[]; failed: number; cancelled: boolean }> {
+  const results = await mapWithConcurrency(
+    runs,
+    (run) => allAttempts
+      ? fetchJobTestRunAttempts(client, run, matcher)
+      : fetchJobTestRun(client, run, matcher, withTests),
+    {
+      signal: context.signal,
+      onProgress: (done, total) =>
+        context.reportProgress?.(done, total, `Analyzed ${done}/${total} runs`),
+    }
+  );
+  const { values, errors, cancelled } = collectSettled(results);
+
+  return {
+    jobRuns: values.flat(),
+    failed: errors.length,
+    cancelled,
+  };
+}
+
+/**
+ * Return a soft error for a job pattern that didn't parse.
+ */
+export interface RunScope {
+  repository?: string;
+  workflow_name?: string;
+  branch?: string;
+}
+
+/**
+ * Translate run scope arguments into runs listing filters.
+ */
+function getRunFilters(scope: RunScope) {
+  return {
+    repositories: scope.repository ? [scope.repository] : undefined,
+    workflows: scope.workflow_name ? [scope.workflow_name] : undefined,
+    branches: scope.branch ? [scope.branch] : undefined,
+  };
+}
+
+/**
+ * List the run scope filters in effect, for responses.
+ */
+function describeRunScope(scope: RunScope): string[] | undefined {
+  const filters: string[] = [];
+  if (scope.repository) filters.push(`repository=${scope.repository}`);
+  if (scope.workflow_name) filters.push(`workflow=${scope.workflow_name}`);
+  if (scope.branch) filters.push(`branch=${scope.branch}`);
+  return filters.length > 0 ? filters : undefined;
+}
+
+const runScopeFields = {
+  repository: z.string().optional().describe('Only analyze runs from this repository (e.g., "Org/repo")'),
+  workflow_name: z.string().optional().describe('Only analyze runs of this workflow'),
+  branch: z.string().optional().describe('Only analyze runs on this branch'),
+};
+
+const JOB_PATTERN_DESCRIPTION =
+  'Job name (e.g., "Test (Blacksmith/Self-Hosted)"), a glob like "Test (shard *)", or a /regex/. ' +
+  'Matrix shards are merged by test. Omit to scan every job with test results.';
+
 // ==================== Flaky Test Detection ====================
 
 export const getFlakyTestsSchema = z.object({
-  job_name: z.string().describe('Job name to analyze (e.g., "Test (Blacksmith/Self-Hosted)")'),
+  job_name: z.string().optional().describe(JOB_PATTERN_DESCRIPTION),
+  ...runScopeFields,
   days: z
     .number()
     .optional()
@@ -479,60 +812,76 @@ export const getFlakyTestsSchema = z.object({
 
 export async function getFlakyTests(
   client: BlacksmithClient,
-  args: z.infer<typeof getFlakyTestsSchema>
+  args: z.infer<typeof getFlakyTestsSchema>,
+  context: ToolContext = {}
 ) {
   const days = args.days ?? 7;
   const threshold = args.threshold ?? 0.1;
   const minRuns = args.min_runs ?? 3;
+  const matcher = parseJobPattern(args.job_name);
+  if (!matcher) return invalidJobPattern(args.job_name);
 
-  // Get recent runs
   const endDate = new Date().toISOString();
   const startDate = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
-  const runs = await client.listRuns({ startDate, endDate });
-  const completedRuns = runs.filter(isRunCompleted);
 
-  if (completedRuns.length < minRuns) {
-    return {
-      error: 'Insufficient data for flaky test detection',
-      details: {
-        runs_found: completedRuns.length,
-        runs_required: minRuns,
-        days_searched: days,
-      },
-      suggestions: [
-        completedRuns.length === 0
-          ? 'No completed runs found. Verify the job_name matches exactly (case-sensitive).'
-          : `Found ${completedRuns.length} runs, need at least ${minRuns}. Try increasing the 'days' parameter.`,
-        'Flaky detection requires test results from multiple runs.',
-        'Ensure your CI uploads JUnit XML or similar test reports.',
-      ],
-      available_workflows: runs.length > 0
-        ? [...new Set(runs.map(r => r.workflow_name).filter(Boolean))].slice(0, 5)
-        : undefined,
-    };
+  // Prefer the local history store when it covers the range with enough data for these jobs
+  const local = await getLocalJobTestRuns(client, matcher, args, startDate, endDate, true, context, true);
+  const useLocal = local !== null && countRuns(local.jobRuns) >= minRuns;
+  const source = useLocal ? 'local_history' : 'api';
+  let jobRuns: JobTestRun[] = useLocal ? local.jobRuns : [];
+  let runsFailed = useLocal ? local.failed : 0;
+  let cancelled = useLocal ? local.cancelled : false;
+
+  if (source === 'api') {
+    const runs = await client.listRuns({ startDate, endDate, ...getRunFilters(args), limit: RUN_LIST_LIMIT, signal: context.signal });
+    const completedRuns = runs.filter(isRunCompleted);
+
+    if (completedRuns.length < minRuns) {
+      return {
+        error: 'Insufficient data for flaky test detection',
+        details: {
+          runs_found: completedRuns.length,
+          runs_required: minRuns,
+          days_searched: days,
+          filters_applied: describeRunScope(args),
+        },
+        suggestions: [
+          completedRuns.length === 0
+            ? 'No completed runs found. Verify the job_name; exact names are case-sensitive, globs are not.'
+            : `Found ${completedRuns.length} runs, need at least ${minRuns}. Try increasing the 'days' parameter.`,
+          'Flaky detection requires test results from multiple runs.',
+          'Ensure your CI uploads JUnit XML or similar test reports.',
+        ],
+        available_workflows: runs.length > 0
+          ? [...new Set(runs.map(r => r.workflow_name).filter(Boolean))].slice(0, 5)
+          : undefined,
+      };
+    }
+
+    // Limit to 20 runs to avoid too many API calls
+    const fetched = await fetchJobTestRuns(client, completedRuns.slice(0, 20), matcher, true, context, true);
+    jobRuns = fetched.jobRuns;
+    runsFailed = fetched.failed;
+    cancelled = fetched.cancelled;
   }
 
-  // Track test results across runs: test_key -> { passed: number, failed: number, runs: string[] }
+  // Track test results across runs, attempts and matrix shards, keyed by suite::name
   const testHistory = new Map<string, {
     suite: string;
     name: string;
     passed: number;
     failed: number;
-    runs: { run_id: string; status: string; date?: string }[];
+    runs: TestAttemptResult[];
   }>();
 
   // Analyze each run
-  let runsAnalyzed = 0;
-  for (const run of completedRuns.slice(0, 20)) { // Limit to 20 runs to avoid too many API calls
-    const runDetail = await client.getRun(String(run.id));
-    const job = runDetail.jobs?.find(j => j.name === args.job_name);
-
-    if (!job) continue;
-
-    const tests = await client.getJobTests(String(run.id), String(job.id));
-    runsAnalyzed++;
-
-    for (const test of tests.tests ?? []) {
+  const runsAnalyzed = countRuns(jobRuns);
+  const retriedRuns = new Set(
+    jobRuns.filter((jobRun) => jobAttempt(jobRun) > 1).map(({ run }) => String(run.id))
+  ).size;
+  for (const jobRun of jobRuns) {
+    const { run, job, tests } = jobRun;
+    for (const test of tests ?? []) {
       const key = `${test.test_suite}::${test.test_name}`;
       const existing = testHistory.get(key) ?? {
         suite: test.test_suite ?? 'Unknown',
@@ -550,6 +899,9 @@ export async function getFlakyTests(
 
       existing.runs.push({
         run_id: String(run.id),
+        job_name: job.name,
+        sha: test.sha || run.head_commit?.sha || run.head_sha || null,
+        attempt: jobAttempt(jobRun),
         status: test.test_status,
         date: run.created_at,
       });
@@ -562,12 +914,23 @@ export async function getFlakyTests(
   const flakyTests: {
     suite: string;
     name: string;
+    confidence: number;
+    classification: FlakeEvidence['classification'];
     flakiness: number;
     passed: number;
     failed: number;
     total_runs: number;
+    evidence: Omit<FlakeEvidence, 'classification' | 'confidence'>;
+    failures_by_job: Record<string, number>;
     recent_results: string[];
   }[] = [];
+  const likelyRegressions: {
+    suite: string;
+    name: string;
+    failed_shas: number;
+    last_failed?: string;
+    failures_by_job: Record<string, number>;
+  }[] = [];
 
   for (const [, data] of testHistory) {
     const totalRuns = data.passed + data.failed;
@@ -576,14 +939,33 @@ export async function getFlakyTests(
     const flakiness = data.failed / totalRuns;
 
     // A test is flaky if it fails sometimes but not always
-    if (flakiness >= threshold && flakiness < 1.0) {
+    if (flakiness === 0 || flakiness >= 1.0) continue;
+
+    const { classification, confidence, ...evidence } = scoreFlakiness(data.runs);
+    if (classification === 'likely_regression') {
+      likelyRegressions.push({
+        suite: data.suite,
+        name: data.name,
+        failed_shas: evidence.fail_only_shas,
+        last_failed: data.runs.filter(r => r.status === 'fail').map(r => r.date ?? '').sort().pop(),
+        failures_by_job: countFailuresByJob(data.runs),
+      });
+      continue;
+    }
+
+    // Same-SHA flips are flaky regardless of how rarely the test fails
+    if (flakiness >= threshold || evidence.retry_flips > 0 || evidence.mixed_shas > 0) {
       flakyTests.push({
         suite: data.suite,
         name: data.name,
+        confidence,
+        classification,
         flakiness: Math.round(flakiness * 100) / 100,
         passed: data.passed,
         failed: data.failed,
         total_runs: totalRuns,
+        evidence,
+        failures_by_job: countFailuresByJob(data.runs),
         recent_results: data.runs
           .slice(-10)
           .map(r => r.status === 'pass' ? '✓' : '✗'),
@@ -591,23 +973,45 @@ export async function getFlakyTests(
     }
   }
 
-  // Sort by flakiness descending
-  flakyTests.sort((a, b) => b.flakiness - a.flakiness);
+  // Strongest evidence first
+  flakyTests.sort((a, b) => b.confidence - a.confidence || b.flakiness - a.flakiness);
 
+  const top = flakyTests[0];
   return {
     summary: {
       days_analyzed: days,
       runs_analyzed: runsAnalyzed,
+      ...(matcher.exact === null && { jobs_matched: listJobNames(jobRuns) }),
+      filters_applied: describeRunScope(args),
+      retried_runs: retriedRuns,
       threshold_used: threshold,
       flaky_tests_found: flakyTests.length,
+      likely_regressions_found: likelyRegressions.length,
+      source,
+      ...(runsFailed > 0 && { runs_failed: runsFailed }),
+      ...(cancelled && { cancelled: true }),
     },
     flaky_tests: flakyTests.slice(0, 30),
-    insight: flakyTests.length === 0
+    likely_regressions: likelyRegressions.slice(0, 10),
+    insight: !top
       ? 'No flaky tests detected at this threshold.'
-      : `Found ${flakyTests.length} flaky test(s). Top offender: "${flakyTests[0]?.name}" fails ${Math.round((flakyTests[0]?.flakiness ?? 0) * 100)}% of the time.`,
+      : `Found ${flakyTests.length} flaky test(s). Top offender: "${top.name}" fails ${Math.round(top.flakiness * 100)}% of the time ` +
+        `(confidence ${top.confidence}${top.evidence.retry_flips > 0 ? `, passed on retry of the same commit ${top.evidence.retry_flips} time(s)` : ''}).`,
   };
 }
 
+/**
+ * Count a test's failures per job, so sharded or matrix failures can be traced
+ * to the shard they came from.
+ */
+function countFailuresByJob(results: TestAttemptResult[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const result of results) {
+    if (result.status === 'fail') counts[result.job_name] = (counts[result.job_name] ?? 0) + 1;
+  }
+  return counts;
+}
+
 // ==================== Slow Test Detection ====================
 
 export const getSlowTestsSchema = z.object({
@@ -692,34 +1096,41 @@ export const getTestHistorySchema = z.object({
     .string()
     .optional()
     .describe('Test suite name (helps disambiguate if multiple tests have same name)'),
-  job_name: z.string().describe('Job name to search in (e.g., "Test (Blacksmith/Self-Hosted)")'),
+  job_name: z.string().optional().describe(JOB_PATTERN_DESCRIPTION),
+  ...runScopeFields,
   limit: z
     .number()
     .optional()
     .describe('Number of historical results to return (default: 10)'),
+  days: z
+    .number()
+    .optional()
+    .describe('Number of days to search back (default: 14). Longer ranges are fast with the local history store.'),
 });
 
 export async function getTestHistory(
   client: BlacksmithClient,
-  args: z.infer<typeof getTestHistorySchema>
+  args: z.infer<typeof getTestHistorySchema>,
+  context: ToolContext = {}
 ) {
   const limit = args.limit ?? 10;
+  const days = args.days ?? 14;
+  const matcher = parseJobPattern(args.job_name);
+  if (!matcher) return invalidJobPattern(args.job_name);
 
-  // Get recent runs
   const endDate = new Date().toISOString();
-  const startDate = new Date(Date.now() - 14 * 24 * 60 * 60 * 1000).toISOString(); // Last 14 days
-  const runs = await client.listRuns({ startDate, endDate });
+  const startDate = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
 
-  const completedRuns = runs
-    .filter(isRunCompleted)
-    .sort((a, b) => {
-      const dateA = a.created_at ? new Date(a.created_at).getTime() : 0;
-      const dateB = b.created_at ? new Date(b.created_at).getTime() : 0;
-      return dateB - dateA;
-    });
+  const matchesTest = (t: TestResult) => {
+    const nameMatch = t.test_name.toLowerCase().includes(args.test_name.toLowerCase()) ||
+                     args.test_name.toLowerCase().includes(t.test_name.toLowerCase());
+    const suiteMatch = !args.suite || t.test_suite?.toLowerCase().includes(args.suite.toLowerCase());
+    return nameMatch && suiteMatch;
+  };
 
   const history: {
     run_id: string;
+    job_name: string;
     date: string;
     branch?: string;
     status: string;
@@ -727,27 +1138,12 @@ export async function getTestHistory(
     error?: string;
   }[] = [];
 
-  // Search through runs for this test
-  for (const run of completedRuns) {
-    if (history.length >= limit) break;
-
-    const runDetail = await client.getRun(String(run.id));
-    const job = runDetail.jobs?.find(j => j.name === args.job_name);
-    if (!job) continue;
-
-    const tests = await client.getJobTests(String(run.id), String(job.id));
-
-    // Find the specific test
-    const testMatch = (tests.tests ?? []).find(t => {
-      const nameMatch = t.test_name.toLowerCase().includes(args.test_name.toLowerCase()) ||
-                       args.test_name.toLowerCase().includes(t.test_name.toLowerCase());
-      const suiteMatch = !args.suite || t.test_suite?.toLowerCase().includes(args.suite.toLowerCase());
-      return nameMatch && suiteMatch;
-    });
-
+  const addMatch = ({ run, job, tests }: JobTestRun) => {
+    const testMatch = tests?.find(matchesTest);
     if (testMatch) {
       history.push({
         run_id: String(run.id),
+        job_name: job.name,
         date: run.created_at ?? 'Unknown',
         branch: run.head_branch ?? run.branch_name,
         status: testMatch.test_status,
@@ -757,11 +1153,64 @@ export async function getTestHistory(
           : undefined,
       });
     }
+  };
+
+  // Prefer the local history store when it covers the range
+  const local = await getLocalJobTestRuns(client, matcher, args, startDate, endDate, true, context);
+  const source = local ? 'local_history' : 'api';
+  let runsFailed = local?.failed ?? 0;
+  let cancelled = local?.cancelled ?? false;
+
+  if (local) {
+    for (const jobRun of local.jobRuns) {
+      if (history.length >= limit) break;
+      addMatch(jobRun);
+    }
+  } else {
+    const runs = await client.listRuns({ startDate, endDate, ...getRunFilters(args), limit: RUN_LIST_LIMIT, signal: context.signal });
+    const completedRuns = runs
+      .filter(isRunCompleted)
+      .sort((a, b) => {
+        const dateA = a.created_at ? new Date(a.created_at).getTime() : 0;
+        const dateB = b.created_at ? new Date(b.created_at).getTime() : 0;
+        return dateB - dateA;
+      });
+
+    // Search through runs for this test, one parallel batch at a time so we
+    // stop fetching once enough history is found
+    const batchSize = getConcurrencyLimit();
+    for (let i = 0; i < completedRuns.length && history.length < limit; i += batchSize) {
+      if (context.signal?.aborted) {
+        cancelled = true;
+        break;
+      }
+
+      const batch = await mapWithConcurrency(
+        completedRuns.slice(i, i + batchSize),
+        (run) => fetchJobTestRun(client, run, matcher, true),
+        { signal: context.signal }
+      );
+      const searched = Math.min(i + batchSize, completedRuns.length);
+      context.reportProgress?.(searched, completedRuns.length, `Searched ${searched}/${completedRuns.length} runs`);
+
+      for (const result of batch) {
+        if (history.length >= limit) break;
+        if (result.status === 'rejected') {
+          runsFailed++;
+          continue;
+        }
+        for (const jobRun of result.value) {
+          if (history.length >= limit) break;
+          addMatch(jobRun);
+        }
+      }
+    }
   }
 
   // Calculate stats
   const passCount = history.filter(h => h.status === 'pass').length;
   const failCount = history.filter(h => h.status === 'fail').length;
+  const failedJobs = [...new Set(history.filter(h => h.status === 'fail').map(h => h.job_name))];
 
   return {
     test: {
@@ -773,13 +1222,19 @@ export async function getTestHistory(
       passed: passCount,
       failed: failCount,
       pass_rate: history.length > 0 ? Math.round((passCount / history.length) * 100) : 0,
+      ...(matcher.exact === null && { jobs_matched: [...new Set(history.map(h => h.job_name))].sort() }),
+      filters_applied: describeRunScope(args),
+      source,
+      ...(runsFailed > 0 && { runs_failed: runsFailed }),
+      ...(cancelled && { cancelled: true }),
     },
     history,
     insight: history.length === 0
-      ? 'Test not found in recent runs. Check the test name and job name.'
+      ? `Test not found in recent runs of ${describeJobPattern(matcher)}. Check the test name and job name.`
       : failCount === 0
         ? `Test has passed ${passCount} consecutive times.`
-        : `Test has failed ${failCount} of last ${history.length} runs (${Math.round((failCount / history.length) * 100)}% failure rate).`,
+        : `Test has failed ${failCount} of last ${history.length} runs (${Math.round((failCount / history.length) * 100)}% failure rate)` +
+          (matcher.exact === null ? ` in ${failedJobs.join(', ')}.` : '.'),
   };
 }
 
@@ -789,7 +1244,8 @@ export const getTrendsSchema = z.object({
   metric: z
     .enum(['duration', 'failure_rate', 'test_count'])
     .describe('Metric to track: duration (job runtime), failure_rate (% tests failing), test_count (total tests)'),
-  job_name: z.string().describe('Job name to analyze (e.g., "Test (Blacksmith/Self-Hosted)")'),
+  job_name: z.string().optional().describe(JOB_PATTERN_DESCRIPTION),
+  ...runScopeFields,
   days: z
     .number()
     .optional()
@@ -802,66 +1258,34 @@ export const getTrendsSchema = z.object({
 
 export async function getTrends(
   client: BlacksmithClient,
-  args: z.infer<typeof getTrendsSchema>
+  args: z.infer<typeof getTrendsSchema>,
+  context: ToolContext = {}
 ) {
   const days = args.days ?? 14;
   const granularity = args.granularity ?? 'day';
+  const matcher = parseJobPattern(args.job_name);
+  if (!matcher) return invalidJobPattern(args.job_name);
 
-  // Get runs for the period
   const endDate = new Date().toISOString();
   const startDate = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
-  const runs = await client.listRuns({ startDate, endDate });
-
-  const completedRuns = runs
-    .filter(isRunCompleted)
-    .sort((a, b) => {
-      const dateA = a.created_at ? new Date(a.created_at).getTime() : 0;
-      const dateB = b.created_at ? new Date(b.created_at).getTime() : 0;
-      return dateA - dateB; // Chronological order
-    });
-
-  if (completedRuns.length === 0) {
-    // Provide debug info to help diagnose
-    const sampleRun = runs[0];
-    return {
-      error: 'No completed runs found in the specified period',
-      days_searched: days,
-      total_runs_found: runs.length,
-      debug: sampleRun ? {
-        sample_status: sampleRun.status,
-        sample_conclusion: sampleRun.conclusion,
-        sample_duration: sampleRun.duration_seconds,
-      } : undefined,
-      suggestion: runs.length > 0
-        ? 'Runs were found but none matched completion criteria. Please report this with the debug info above.'
-        : 'Try increasing the days parameter or verify the organization has recent workflow runs.',
-    };
-  }
 
   // Collect data points
   const dataPoints: { date: string; run_id: number; value: number }[] = [];
 
-  for (const run of completedRuns.slice(0, 30)) { // Limit API calls
-    const runDetail = await client.getRun(String(run.id));
-    const job = runDetail.jobs?.find(j => j.name === args.job_name);
-    if (!job) continue;
-
+  // Matrix shards of one run are merged into a single data point
+  const addDataPoint = (run: WorkflowRun, jobRuns: JobTestRun[]) => {
+    const tests = jobRuns.flatMap(r => r.tests ?? []);
     let value: number;
 
     if (args.metric === 'duration') {
-      value = job.runtime_seconds ?? 0;
+      // Shards run in parallel, so the slowest one sets the run's duration
+      value = Math.max(...jobRuns.map(r => r.job.runtime_seconds ?? 0));
+    } else if (args.metric === 'failure_rate') {
+      const failed = tests.filter(t => t.test_status === 'fail').length;
+      value = tests.length > 0 ? (failed / tests.length) * 100 : 0;
     } else {
-      // Need test data for failure_rate and test_count
-      const tests = await client.getJobTests(String(run.id), String(job.id));
-      const testList = tests.tests ?? [];
-
-      if (args.metric === 'failure_rate') {
-        const failed = testList.filter(t => t.test_status === 'fail').length;
-        value = testList.length > 0 ? (failed / testList.length) * 100 : 0;
-      } else {
-        // test_count
-        value = tests.total_count ?? testList.length;
-      }
+      // test_count
+      value = jobRuns.reduce((sum, r) => sum + (r.totalCount ?? r.tests?.length ?? 0), 0);
     }
 
     const dateStr = run.created_at?.split('T')[0] ?? 'unknown';
@@ -870,12 +1294,73 @@ export async function getTrends(
       run_id: run.id,
       value: Math.round(value * 100) / 100,
     });
+  };
+
+  // Prefer the local history store when it covers the range.
+  // Duration only needs job records; the other metrics need full test results,
+  // as does finding the test jobs when no job is given.
+  const needsTests = args.metric !== 'duration' || matcher.pattern === null;
+  const local = await getLocalJobTestRuns(client, matcher, args, startDate, endDate, needsTests, context);
+  const source = local ? 'local_history' : 'api';
+  let jobRuns: JobTestRun[] = [];
+  let runsFailed = local?.failed ?? 0;
+  let cancelled = local?.cancelled ?? false;
+
+  if (local) {
+    // Store returns newest first; trends are built chronologically
+    jobRuns = [...local.jobRuns].reverse();
+  } else {
+    const runs = await client.listRuns({ startDate, endDate, ...getRunFilters(args), limit: RUN_LIST_LIMIT, signal: context.signal });
+
+    const completedRuns = runs
+      .filter(isRunCompleted)
+      .sort((a, b) => {
+        const dateA = a.created_at ? new Date(a.created_at).getTime() : 0;
+        const dateB = b.created_at ? new Date(b.created_at).getTime() : 0;
+        return dateA - dateB; // Chronological order
+      });
+
+    if (completedRuns.length === 0) {
+      // Provide debug info to help diagnose
+      const sampleRun = runs[0];
+      return {
+        error: 'No completed runs found in the specified period',
+        days_searched: days,
+        total_runs_found: runs.length,
+        filters_applied: describeRunScope(args),
+        debug: sampleRun ? {
+          sample_status: sampleRun.status,
+          sample_conclusion: sampleRun.conclusion,
+          sample_duration: sampleRun.duration_seconds,
+        } : undefined,
+        suggestion: runs.length > 0
+          ? 'Runs were found but none matched completion criteria. Please report this with the debug info above.'
+          : 'Try increasing the days parameter or verify the organization has recent workflow runs.',
+      };
+    }
+
+    // Limit API calls to the newest 30 runs, still in chronological order
+    const fetched = await fetchJobTestRuns(client, completedRuns.slice(-30), matcher, needsTests, context);
+    jobRuns = fetched.jobRuns;
+    runsFailed = fetched.failed;
+    cancelled = fetched.cancelled;
+  }
+
+  const byRun = new Map<string, { run: WorkflowRun; jobRuns: JobTestRun[] }>();
+  for (const jobRun of jobRuns) {
+    const key = String(jobRun.run.id);
+    const entry = byRun.get(key) ?? { run: jobRun.run, jobRuns: [] };
+    entry.jobRuns.push(jobRun);
+    byRun.set(key, entry);
+  }
+  for (const { run, jobRuns: runJobs } of byRun.values()) {
+    addDataPoint(run, runJobs);
   }
 
   if (dataPoints.length === 0) {
     return {
-      error: `Job "${args.job_name}" not found in any runs`,
-      suggestion: 'Verify the job_name matches exactly (case-sensitive).',
+      error: `No runs of ${describeJobPattern(matcher)} found`,
+      suggestion: 'Verify the job_name; exact names are case-sensitive. Use a glob like "Test*" to match several jobs.',
     };
   }
 
@@ -945,6 +1430,11 @@ export async function getTrends(
     summary: {
       data_points: aggregated.length,
       runs_analyzed: dataPoints.length,
+      ...(matcher.exact === null && { jobs_matched: listJobNames(jobRuns) }),
+      filters_applied: describeRunScope(args),
+      source,
+      ...(runsFailed > 0 && { runs_failed: runsFailed }),
+      ...(cancelled && { cancelled: true }),
       current_avg: avgSecond,
       previous_avg: avgFirst,
       change_percent: changePercent,
@@ -4,6 +4,11 @@
 
 import { z } from 'zod';
 import type { BlacksmithClient } from '../client.js';
+import type { ToolContext } from './context.js';
+import { mapWithConcurrency, collectSettled } from '../utils/concurrency.js';
+import { formatErrorResponse } from '../utils/errors.js';
+import { collectPages, decodeCursor } from '../utils/pagination.js';
+import type { CacheEntry } from '../types/blacksmith.js';
 
 export const getCurrentUsageSchema = z.object({});
 
@@ -23,12 +28,20 @@ export const getCacheStatsSchema = z.object({
     .describe('Include historical cache data (default: false)'),
 });
 
+export const getOrgPortfolioSummarySchema = z.object({});
+
 export const getCacheEntriesSchema = z.object({
   repository: z.string().describe('Repository name - try short name first (e.g., "votion"), or full name (e.g., "Votion-Platform/votion") if needed'),
   limit: z
     .number()
     .optional()
-    .describe('Maximum number of entries to return (default: 20)'),
+    .describe('Entries per page (default: 20)'),
+  page: z.number().optional().describe('Page number (default: 1)'),
+  cursor: z.string().optional().describe('Cursor from a previous response to fetch the next page; overrides page'),
+  count_total: z
+    .boolean()
+    .optional()
+    .describe('Count every matching entry for total_matching by fetching the remaining pages (slower; default: false)'),
 });
 
 export async function getCurrentUsage(client: BlacksmithClient) {
@@ -148,13 +161,41 @@ export async function getCacheStats(
 
 export async function getCacheEntries(
   client: BlacksmithClient,
-  args: { repository: string; limit?: number }
+  args: z.infer<typeof getCacheEntriesSchema>,
+  context: ToolContext = {}
 ) {
   const limit = args.limit ?? 20;
+  const position = args.cursor ? decodeCursor(args.cursor) : { page: args.page ?? 1, cursor: null };
+  if (!position) {
+    return {
+      error: `Invalid cursor: ${args.cursor}`,
+      suggestion: 'Pass the cursor exactly as returned by a previous get_cache_entries call, or use page instead.',
+    };
+  }
+
   const response = await client.getCacheEntries(args.repository, {
+    page: position.page,
     perPage: limit,
+    cursor: position.cursor,
   });
 
+  // Without a server total, count the remaining pages only on request. Entries
+  // repeated from this page mean the endpoint ignored the page number.
+  let totalMatching = response.totalCount ?? (position.page - 1) * limit + response.items.length;
+  let totalComplete = response.totalCount !== null || !response.hasMore;
+  let hasMore = response.hasMore;
+  if (!totalComplete && args.count_total) {
+    const rest = await collectPages(
+      client.paginateCacheEntries(args.repository, { cursor: response.cursor, perPage: limit, signal: context.signal })
+    );
+    const entryKey = (e: CacheEntry) => `${e.key}:${e.version}:${e.scope}`;
+    const seen = new Set(response.items.map(entryKey));
+    const remaining = rest.items.filter(e => !seen.has(entryKey(e))).length;
+    totalMatching += remaining;
+    totalComplete = rest.complete;
+    hasMore = remaining > 0;
+  }
+
   // API returns size in MB
   const formatSize = (mb: number): string => {
     if (mb < 1) return `${(mb * 1024).toFixed(0)} KB`;
@@ -174,15 +215,19 @@ export async function getCacheEntries(
     return `${days}d ago`;
   };
 
-  // API returns {data: CacheEntry[]}
-  const entries = response.data ?? [];
+  const entries = response.items;
   const totalMb = entries.reduce((sum, e) => sum + e.size, 0);
 
   return {
     summary: {
       repository: args.repository,
       total_entries: entries.length,
+      total_matching: totalMatching,
+      ...(!totalComplete && { total_matching_is_lower_bound: true }),
       total_size: formatSize(totalMb),
+      page: position.page,
+      has_more: hasMore,
+      cursor: hasMore ? response.cursor : null,
     },
     entries: entries.map(entry => ({
       key: entry.key.length > 60 ? entry.key.substring(0, 60) + '...' : entry.key,
@@ -193,6 +238,159 @@ export async function getCacheEntries(
     })),
     insight: entries.length === 0
       ? 'No cache entries found for this repository.'
-      : `${entries.length} cache entries totaling ${formatSize(totalMb)}. Most recent hit: ${formatTimeAgo(entries[0]?.lastHitTime)}.`,
+      : `${entries.length}${hasMore ? ` of ${totalComplete ? '' : 'at least '}${totalMatching}` : ''} cache entries totaling ${formatSize(totalMb)}. Most recent hit: ${formatTimeAgo(entries[0]?.lastHitTime)}.` +
+        (hasMore ? ' Pass the returned cursor for the next page.' : ''),
+  };
+}
+
+// ==================== Portfolio ====================
+
+interface PortfolioRow {
+  org: string;
+  invoice_dollars: number | null;
+  currency: string | null;
+  period: { start: string; end: string } | null;
+  billable_minutes: number | null;
+  free_minutes: number | null;
+  overage_minutes: number | null;
+  current_cores: number | null;
+  max_cores: number | null;
+  cache_size_gb: number | null;
+  cache_entries: number | null;
+  errors?: Record<string, string>;
+}
+
+/**
+ * Settle a value, recording the failure message under `name` instead of throwing.
+ */
+function settledValue<T>(
+  result: PromiseSettledResult<T>,
+  name: string,
+  errors: Record<string, string>
+): T | null {
+  if (result.status === 'fulfilled') return result.value;
+  errors[name] = formatErrorResponse(result.reason).message;
+  return null;
+}
+
+/**
+ * Format an amount in its currency, falling back to the ISO code for codes Intl doesn't know.
+ */
+function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
+
+/**
+ * Gather invoice, usage and cache figures for one org. Each figure fails
+ * independently so one unavailable endpoint doesn't blank the whole row.
+ */
+async function fetchPortfolioRow(client: BlacksmithClient, org: string): Promise<PortfolioRow> {
+  const orgClient = client.withOrg(org);
+  const [invoiceResult, usageResult, coresResult, cacheResult] = await Promise.allSettled([
+    orgClient.getInvoiceAmount(),
+    orgClient.getUsageSummary(),
+    orgClient.getCurrentUsage(),
+    orgClient.getCacheStats(false),
+  ]);
+
+  const errors: Record<string, string> = {};
+  const invoice = settledValue(invoiceResult, 'invoice', errors);
+  const usage = settledValue(usageResult, 'usage_summary', errors);
+  const cores = settledValue(coresResult, 'current_usage', errors);
+  const cache = settledValue(cacheResult, 'cache_stats', errors);
+
+  return {
+    org,
+    invoice_dollars: invoice ? Math.round(invoice.amount * 100) / 100 : null,
+    currency: invoice ? invoice.currency || 'USD' : null,
+    period: invoice?.period_start && invoice.period_end
+      ? { start: invoice.period_start, end: invoice.period_end }
+      : null,
+    billable_minutes: usage?.billable_minutes ?? null,
+    free_minutes: usage?.free_minutes ?? null,
+    overage_minutes: usage ? Math.max(0, usage.billable_minutes - usage.free_minutes) : null,
+    current_cores: cores ? cores.current_cores ?? 0 : null,
+    max_cores: cores ? cores.max_cores ?? 0 : null,
+    cache_size_gb: cache ? Math.round(cache.reduce((sum, r) => sum + r.usage_total_gbs, 0) * 1000) / 1000 : null,
+    cache_entries: cache ? cache.reduce((sum, r) => sum + r.num_entries, 0) : null,
+    ...(Object.keys(errors).length > 0 && { errors }),
+  };
+}
+
+export async function getOrgPortfolioSummary(
+  client: BlacksmithClient,
+  _args: z.infer<typeof getOrgPortfolioSummarySchema>,
+  context: ToolContext = {}
+) {
+  const { installations } = await client.listOrgs();
+  const logins = installations.map((org) => org.login);
+
+  if (logins.length === 0) {
+    return {
+      organizations: [],
+      totals: null,
+      insight: 'No Blacksmith installations found for this session.',
+    };
+  }
+
+  const results = await mapWithConcurrency(
+    logins,
+    (org) => fetchPortfolioRow(client, org),
+    {
+      signal: context.signal,
+      onProgress: (done, total) =>
+        context.reportProgress?.(done, total, `Summarized ${done}/${total} orgs`),
+    }
+  );
+  const { values: rows, cancelled } = collectSettled(results);
+
+  const sum = (field: keyof PortfolioRow) =>
+    rows.reduce((total, row) => total + (typeof row[field] === 'number' ? row[field] : 0), 0);
+
+  // Invoices in different currencies can't be added up, so they're totalled per currency
+  const invoiceByCurrency: Record<string, number> = {};
+  for (const row of rows) {
+    if (row.invoice_dollars === null || row.currency === null) continue;
+    invoiceByCurrency[row.currency] = Math.round(((invoiceByCurrency[row.currency] ?? 0) + row.invoice_dollars) * 100) / 100;
+  }
+  const currencies = Object.keys(invoiceByCurrency);
+  const incomplete = rows.filter((row) => row.errors).map((row) => row.org);
+
+  const warnings: string[] = [];
+  if (currencies.length > 1) {
+    warnings.push(`Invoices use different currencies (${currencies.join(', ')}); see invoice_by_currency for their totals.`);
+  }
+  if (incomplete.length > 0) {
+    warnings.push(`Some figures could not be fetched for: ${incomplete.join(', ')}. Totals exclude them.`);
+  }
+
+  const top = [...rows].sort((a, b) => (b.invoice_dollars ?? 0) - (a.invoice_dollars ?? 0))[0];
+  const spending = currencies.length > 0
+    ? Object.entries(invoiceByCurrency).map(([currency, amount]) => formatMoney(amount, currency)).join(' + ')
+    : formatMoney(0, 'USD');
+
+  return {
+    organizations: rows,
+    totals: {
+      org_count: rows.length,
+      invoice_dollars: currencies.length > 1 ? null : invoiceByCurrency[currencies[0] ?? ''] ?? 0,
+      currency: currencies.length > 1 ? 'mixed' : currencies[0] ?? 'USD',
+      invoice_by_currency: invoiceByCurrency,
+      billable_minutes: sum('billable_minutes'),
+      free_minutes: sum('free_minutes'),
+      overage_minutes: sum('overage_minutes'),
+      current_cores: sum('current_cores'),
+      max_cores: sum('max_cores'),
+      cache_size_gb: Math.round(sum('cache_size_gb') * 1000) / 1000,
+      cache_entries: sum('cache_entries'),
+    },
+    ...(warnings.length > 0 && { warnings }),
+    ...(cancelled && { cancelled: true }),
+    insight: `${rows.length} org${rows.length === 1 ? '' : 's'} spending ${spending} this billing period` +
+      (top?.invoice_dollars && currencies.length === 1 ? `; largest is ${top.org} at ${formatMoney(top.invoice_dollars, currencies[0] ?? 'USD')}.` : '.'),
   };
 }
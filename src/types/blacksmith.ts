@@ -103,6 +103,11 @@ export interface WorkflowRun {
   pull_request?: {
     number: number;
     url: string;
+    // Target branch, when GitHub's PR payload is passed through
+    base?: {
+      ref: string;
+      sha?: string;
+    };
   } | null;
 }
 
@@ -137,6 +142,7 @@ export interface JobSummary {
   workflow_run_id?: string;
   workflow_run_attempt?: number;
   labels?: string[];
+  vm_id?: string | null;
   steps?: JobStep[];
 }
 
@@ -158,6 +164,7 @@ export interface Job {
   workflow_run_id?: string;
   workflow_run_attempt?: number;
   labels?: string[];
+  vm_id?: string | null;
   steps?: JobStep[];
 }
 
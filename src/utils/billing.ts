@@ -0,0 +1,139 @@
+/**
+ * Shared utilities for billing periods and spend projection.
+ */
+
+import type { InvoiceAmount } from '../types/blacksmith.js';
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// z-score for the 80% confidence range reported with forecasts
+const CONFIDENCE_Z = 1.2816;
+export const FORECAST_CONFIDENCE = 0.8;
+
+export interface BillingPeriod {
+  start: Date;
+  end: Date;
+}
+
+export interface DailyActivity {
+  date: string;
+  value: number;
+}
+
+export interface Range {
+  expected: number;
+  low: number;
+  high: number;
+}
+
+/**
+ * Get the billing period from an invoice, falling back to the current
+ * calendar month (UTC) when the API doesn't report one.
+ */
+export function getBillingPeriod(invoice: InvoiceAmount, now = new Date()): BillingPeriod {
+  const start = invoice.period_start ? new Date(invoice.period_start) : null;
+  const end = invoice.period_end ? new Date(invoice.period_end) : null;
+  if (start && end && !isNaN(start.getTime()) && !isNaN(end.getTime()) && end > start) {
+    return { start, end };
+  }
+
+  return {
+    start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+  };
+}
+
+/**
+ * Get the monthly billing period immediately before `period`.
+ */
+export function getPreviousPeriod(period: BillingPeriod): BillingPeriod {
+  const start = new Date(period.start);
+  start.setUTCMonth(start.getUTCMonth() - 1);
+  return { start, end: period.start };
+}
+
+const DATE_KEYS = ['date', 'day', 'timestamp', 'bucket', 'time'];
+const VALUE_KEYS = [
+  'total_duration',
+  'duration',
+  'total_duration_seconds',
+  'duration_seconds',
+  'total_minutes',
+  'minutes',
+  'job_minutes',
+  'billable_minutes',
+];
+
+/**
+ * Extract a per-day activity series from the jobs daily endpoint.
+ *
+ * The endpoint is undocumented, so this accepts an array of day entries
+ * either at the top level or under the first array-valued property, and
+ * takes the first duration-like field of each entry. Units don't matter to
+ * callers, which calibrate the series against billed minutes.
+ */
+export function parseDailyActivity(data: unknown): DailyActivity[] {
+  const rows = Array.isArray(data)
+    ? data
+    : data && typeof data === 'object'
+      ? Object.values(data).find(Array.isArray) ?? []
+      : [];
+
+  const byDate = new Map<string, number>();
+  for (const row of rows as unknown[]) {
+    if (!row || typeof row !== 'object') continue;
+    const entry = row as Record<string, unknown>;
+
+    const rawDate = DATE_KEYS.map((key) => entry[key]).find((v) => typeof v === 'string' || typeof v === 'number');
+    const value = VALUE_KEYS.map((key) => entry[key]).find((v): v is number => typeof v === 'number' && !isNaN(v));
+    if (rawDate === undefined || value === undefined) continue;
+
+    const date = new Date(rawDate as string | number);
+    if (isNaN(date.getTime())) continue;
+    const day = date.toISOString().slice(0, 10);
+    byDate.set(day, (byDate.get(day) ?? 0) + value);
+  }
+
+  return [...byDate.entries()]
+    .map(([date, value]) => ({ date, value }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Sum the activity for days within [start, end).
+ */
+export function sumActivity(series: DailyActivity[], start: Date, end: Date): number {
+  const from = start.toISOString().slice(0, 10);
+  const to = end.toISOString().slice(0, 10);
+  return series
+    .filter((day) => day.date >= from && day.date < to)
+    .reduce((sum, day) => sum + day.value, 0);
+}
+
+/**
+ * Mean and sample standard deviation.
+ */
+export function meanAndStdev(values: number[]): { mean: number; stdev: number } {
+  if (values.length === 0) return { mean: 0, stdev: 0 };
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  if (values.length === 1) return { mean, stdev: 0 };
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1);
+  return { mean, stdev: Math.sqrt(variance) };
+}
+
+/**
+ * Project the total of `days` more days drawn from a daily distribution,
+ * with an 80% confidence range.
+ */
+export function projectTotal(daily: { mean: number; stdev: number }, days: number): Range {
+  const expected = daily.mean * days;
+  const spread = CONFIDENCE_Z * daily.stdev * Math.sqrt(days);
+  return { expected, low: Math.max(0, expected - spread), high: expected + spread };
+}
+
+/**
+ * Round to cents.
+ */
+export function roundDollars(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
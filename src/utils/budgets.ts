@@ -0,0 +1,145 @@
+/**
+ * Local budget configuration.
+ *
+ * Budgets live in a JSON file (BLACKSMITH_BUDGETS_FILE, or
+ * ~/.blacksmith-mcp/budgets.json by default) with monthly caps per org and
+ * optionally per repository:
+ *
+ *   {
+ *     "warn_at_percent": 80,
+ *     "budgets": [
+ *       { "org": "acme", "monthly_usd": 500 },
+ *       { "org": "acme", "repository": "acme/web", "monthly_usd": 150, "warn_at_percent": 90 }
+ *     ]
+ *   }
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { z } from 'zod';
+import { ConfigurationError } from './errors.js';
+
+const DEFAULT_BUDGETS_PATH = join(homedir(), '.blacksmith-mcp', 'budgets.json');
+const DEFAULT_WARN_AT_PERCENT = 80;
+
+const budgetsFileSchema = z.object({
+  warn_at_percent: z.number().min(0).max(100).optional(),
+  budgets: z.array(
+    z.object({
+      org: z.string().min(1),
+      repository: z.string().min(1).optional(),
+      monthly_usd: z.number().positive(),
+      warn_at_percent: z.number().min(0).max(100).optional(),
+    })
+  ),
+});
+
+export interface Budget {
+  org: string;
+  /** Repository the cap applies to; the whole org when unset. */
+  repository: string | null;
+  monthlyUsd: number;
+  warnAtPercent: number;
+}
+
+export interface BudgetConfig {
+  path: string;
+  budgets: Budget[];
+}
+
+/**
+ * Get the budget file path from BLACKSMITH_BUDGETS_FILE or the default location.
+ */
+export function getBudgetsPath(): string {
+  return process.env['BLACKSMITH_BUDGETS_FILE'] || DEFAULT_BUDGETS_PATH;
+}
+
+/**
+ * Load budgets from the budget file. Returns null if the file doesn't exist.
+ */
+export function loadBudgetsFromEnv(): BudgetConfig | null {
+  const path = getBudgetsPath();
+  if (!existsSync(path)) return null;
+
+  let parsed: z.infer<typeof budgetsFileSchema>;
+  try {
+    parsed = budgetsFileSchema.parse(JSON.parse(readFileSync(path, 'utf-8')));
+  } catch (error) {
+    throw new ConfigurationError(
+      `Invalid budget file ${path}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const warnAtPercent = parsed.warn_at_percent ?? DEFAULT_WARN_AT_PERCENT;
+  return {
+    path,
+    budgets: parsed.budgets.map((budget) => ({
+      org: budget.org,
+      repository: budget.repository ?? null,
+      monthlyUsd: budget.monthly_usd,
+      warnAtPercent: budget.warn_at_percent ?? warnAtPercent,
+    })),
+  };
+}
+
+/**
+ * Check whether a repository name from the API matches a budget's repository.
+ * Budgets may name a repository by full name ("org/repo") or short name ("repo").
+ */
+export function matchesRepository(name: string, budgetRepository: string): boolean {
+  const actual = name.toLowerCase();
+  const wanted = budgetRepository.toLowerCase();
+  return actual === wanted || actual.endsWith(`/${wanted}`);
+}
+
+export type BudgetStatus = 'ok' | 'warning' | 'breach';
+
+/**
+ * What a spend figure measures: the org's invoice net of the free tier, or
+ * job minutes priced at list price (all a repository's spend can be measured by).
+ */
+export type SpendBasis = 'invoice' | 'list_price';
+
+export interface BudgetAlert {
+  org: string;
+  repository: string | null;
+  kind: 'actual' | 'forecast' | 'threshold';
+  message: string;
+}
+
+/**
+ * Classify spend against a cap: a breach once actual spend reaches it, a
+ * warning when the forecast exceeds it or actual spend passes the warning threshold.
+ */
+export function evaluateBudget(
+  budget: Budget,
+  actual: number,
+  forecast: number,
+  basis: SpendBasis
+): { status: BudgetStatus; alert: BudgetAlert | null } {
+  const scope = budget.repository ? `${budget.repository} (${budget.org})` : budget.org;
+  const cap = `$${budget.monthlyUsd.toFixed(2)}`;
+  const estimated = basis === 'list_price' ? ' at list price' : '';
+  const base = { org: budget.org, repository: budget.repository };
+
+  if (actual >= budget.monthlyUsd) {
+    return {
+      status: 'breach',
+      alert: { ...base, kind: 'actual', message: `${scope} has spent $${actual.toFixed(2)}${estimated}, over its ${cap} monthly cap.` },
+    };
+  }
+  if (forecast >= budget.monthlyUsd) {
+    return {
+      status: 'warning',
+      alert: { ...base, kind: 'forecast', message: `${scope} is forecast to spend $${forecast.toFixed(2)}${estimated} this period, over its ${cap} cap.` },
+    };
+  }
+  if (actual >= (budget.monthlyUsd * budget.warnAtPercent) / 100) {
+    return {
+      status: 'warning',
+      alert: { ...base, kind: 'threshold', message: `${scope} has used ${Math.round((actual / budget.monthlyUsd) * 100)}% of its ${cap} cap${estimated}.` },
+    };
+  }
+  return { status: 'ok', alert: null };
+}
@@ -0,0 +1,203 @@
+/**
+ * In-memory response cache for the Blacksmith API.
+ *
+ * Responses are cached as raw text (and re-parsed on every hit, so callers
+ * can't mutate each other's data) with a TTL chosen per endpoint: finished
+ * runs and their test results are kept for several minutes (a re-run adds
+ * attempts under the same run ID), while live usage goes stale in seconds. The cache is bounded by total response size and evicts the least
+ * recently used entries first.
+ */
+
+import { logger } from './logger.js';
+import { isRunDetailCompleted } from './runs.js';
+import type { Job, RunDetailResponse } from '../types/blacksmith.js';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const FOREVER = Number.POSITIVE_INFINITY;
+
+const DEFAULT_MAX_MB = 100;
+
+// How long run-scoped data is cached before its run is known to be finished.
+const UNFINISHED_RUN_TTL = 15 * SECOND;
+// How long a finished run's data is cached; a re-run can still add attempts and jobs to it.
+const FINISHED_RUN_TTL = 10 * MINUTE;
+
+/**
+ * TTL rules, first match wins. Patterns match the endpoint path after the org.
+ * A function TTL receives the response body and the set of finished run IDs.
+ */
+const TTL_RULES: {
+  pattern: RegExp;
+  ttl: number | ((body: string, finishedRuns: Set<string>, runId: string | undefined) => number);
+}[] = [
+  // Live data
+  { pattern: /metrics\/core-usage\/current/, ttl: 10 * SECOND },
+  { pattern: /metrics\/core-usage\/timeseries/, ttl: MINUTE },
+  { pattern: /metrics\/invoice-amount|\/usage$/, ttl: MINUTE },
+  { pattern: /metrics\/logs\/(search|histogram)/, ttl: 30 * SECOND },
+
+  // Run detail: stable once every job has finished, until the run is re-run
+  {
+    pattern: /workflows\/runs\/\d+$/,
+    ttl: (body, finishedRuns, runId) => {
+      const run = JSON.parse(body) as RunDetailResponse;
+      if (!isRunDetailCompleted(run)) {
+        if (runId) finishedRuns.delete(runId);
+        return UNFINISHED_RUN_TTL;
+      }
+      if (runId) finishedRuns.add(runId);
+      return FINISHED_RUN_TTL;
+    },
+  },
+
+  // Job detail: immutable once the job has finished, since a re-run creates new job IDs
+  {
+    pattern: /workflows\/runs\/\d+\/jobs\/\d+$/,
+    ttl: (body) => {
+      const { job } = JSON.parse(body) as { job?: Job };
+      return job?.completed_at || job?.conclusion ? FOREVER : UNFINISHED_RUN_TTL;
+    },
+  },
+
+  // Tests and VM metrics: stable once the owning run is known to be finished
+  {
+    pattern: /workflows\/runs\/\d+\/(tests|jobs\/\d+\/(tests|metrics))/,
+    ttl: (_body, finishedRuns, runId) =>
+      runId && finishedRuns.has(runId) ? FINISHED_RUN_TTL : UNFINISHED_RUN_TTL,
+  },
+
+  // Runs listing: new runs appear constantly
+  { pattern: /workflows\/runs(\?|$)/, ttl: 30 * SECOND },
+
+  // Job log stream
+  { pattern: /metrics\/logs\/job\/stream/, ttl: MINUTE },
+];
+
+// Settings, analytics and everything else
+const DEFAULT_TTL = 5 * MINUTE;
+
+interface CacheEntry {
+  text: string;
+  size: number;
+  expiresAt: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  size_bytes: number;
+  max_bytes: number;
+  hits: number;
+  misses: number;
+}
+
+export class ResponseCache {
+  // Map preserves insertion order; re-inserting on access makes it an LRU
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly finishedRuns = new Set<string>();
+  private sizeBytes = 0;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(private readonly maxBytes: number) {}
+
+  /**
+   * Get a cached response body, or undefined on miss/expiry.
+   */
+  get(key: string): string | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.delete(key, entry);
+      this.misses++;
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    logger.debug(`Cache hit: ${key}`);
+    return entry.text;
+  }
+
+  /**
+   * Cache a response body for the TTL of its endpoint.
+   */
+  set(key: string, text: string): void {
+    const ttl = this.getTtl(key, text);
+    const size = Buffer.byteLength(text);
+    if (ttl <= 0 || size > this.maxBytes) return;
+
+    const existing = this.entries.get(key);
+    if (existing) this.delete(key, existing);
+
+    // Evict least recently used entries until the new one fits
+    for (const [oldKey, oldEntry] of this.entries) {
+      if (this.sizeBytes + size <= this.maxBytes) break;
+      this.delete(oldKey, oldEntry);
+    }
+
+    this.entries.set(key, { text, size, expiresAt: Date.now() + ttl });
+    this.sizeBytes += size;
+  }
+
+  /**
+   * Drop all cached responses.
+   */
+  clear(): { entries_cleared: number; bytes_cleared: number } {
+    const cleared = { entries_cleared: this.entries.size, bytes_cleared: this.sizeBytes };
+    this.entries.clear();
+    this.finishedRuns.clear();
+    this.sizeBytes = 0;
+    return cleared;
+  }
+
+  stats(): CacheStats {
+    return {
+      entries: this.entries.size,
+      size_bytes: this.sizeBytes,
+      max_bytes: this.maxBytes,
+      hits: this.hits,
+      misses: this.misses,
+    };
+  }
+
+  private delete(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.sizeBytes -= entry.size;
+  }
+
+  private getTtl(key: string, text: string): number {
+    const path = key.split('?')[0] ?? key;
+    const runId = path.match(/workflows\/runs\/(\d+)/)?.[1];
+
+    for (const rule of TTL_RULES) {
+      if (!rule.pattern.test(key)) continue;
+      if (typeof rule.ttl === 'number') return rule.ttl;
+      try {
+        return rule.ttl(text, this.finishedRuns, runId);
+      } catch {
+        return UNFINISHED_RUN_TTL;
+      }
+    }
+
+    return DEFAULT_TTL;
+  }
+}
+
+/**
+ * Create the response cache from environment variables.
+ * Enabled by default; set BLACKSMITH_CACHE=0 to disable.
+ * BLACKSMITH_CACHE_MAX_MB bounds total cached response size (default: 100).
+ */
+export function createResponseCacheFromEnv(): ResponseCache | null {
+  const setting = process.env['BLACKSMITH_CACHE'];
+  if (setting === '0' || setting === 'false') return null;
+
+  const maxMb = Number(process.env['BLACKSMITH_CACHE_MAX_MB'] ?? DEFAULT_MAX_MB);
+  return new ResponseCache((maxMb > 0 ? maxMb : DEFAULT_MAX_MB) * 1024 * 1024);
+}
@@ -0,0 +1,91 @@
+/**
+ * Bounded-concurrency fan-out for multi-run analyses.
+ */
+
+import { CancelledError } from './errors.js';
+
+const DEFAULT_CONCURRENCY = 5;
+
+/**
+ * Get the parallelism limit from BLACKSMITH_CONCURRENCY (default: 5).
+ */
+export function getConcurrencyLimit(): number {
+  const setting = process.env['BLACKSMITH_CONCURRENCY'];
+  if (setting && /^\d+$/.test(setting) && parseInt(setting, 10) > 0) {
+    return parseInt(setting, 10);
+  }
+  return DEFAULT_CONCURRENCY;
+}
+
+export interface MapOptions {
+  /** Maximum calls in flight (default: BLACKSMITH_CONCURRENCY). */
+  concurrency?: number;
+  /** Stop starting new items once aborted; unstarted items reject with CancelledError. */
+  signal?: AbortSignal;
+  /** Called after each item settles with the number settled so far. */
+  onProgress?: (completed: number, total: number) => void;
+}
+
+/**
+ * Run `fn` over `items` with at most `concurrency` calls in flight.
+ * Results are returned in input order as settled results, so one failed
+ * item never discards the others.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  fn: (item: T, index: number) => Promise<R>,
+  options: MapOptions = {}
+): Promise<PromiseSettledResult<R>[]> {
+  const concurrency = options.concurrency ?? getConcurrencyLimit();
+  const results = new Array<PromiseSettledResult<R>>(items.length);
+  let next = 0;
+  let completed = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      if (options.signal?.aborted) {
+        results[index] = { status: 'rejected', reason: new CancelledError() };
+        continue;
+      }
+      try {
+        results[index] = { status: 'fulfilled', value: await fn(items[index] as T, index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+      options.onProgress?.(++completed, items.length);
+    }
+  };
+
+  const workers = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
+
+/**
+ * Split settled results into values and errors.
+ * Cancelled items are reported via `cancelled` rather than as errors.
+ * Throws the first error if every item failed, since there is nothing
+ * partial to return.
+ */
+export function collectSettled<R>(results: PromiseSettledResult<R>[]): {
+  values: R[];
+  errors: unknown[];
+  cancelled: boolean;
+} {
+  const values: R[] = [];
+  const errors: unknown[] = [];
+  let cancelled = false;
+
+  for (const result of results) {
+    if (result.status === 'fulfilled') values.push(result.value);
+    else if (result.reason instanceof CancelledError) cancelled = true;
+    else errors.push(result.reason);
+  }
+
+  if (values.length === 0 && errors.length > 0) {
+    throw errors[0];
+  }
+
+  return { values, errors, cancelled };
+}
@@ -1,18 +1,28 @@
 /**
- * Cookie extraction from Chrome browser.
+ * Cookie extraction from the browser.
  *
- * Extracts the Blacksmith session cookie from Chrome's cookie storage.
+ * Extracts the Blacksmith session cookie from browser cookie storage.
  * This allows the MCP to work seamlessly if you're already logged into Blacksmith.
  *
- * On macOS, Chrome encrypts cookies using a key stored in the keychain.
- * We use the `security` CLI to retrieve the key and decrypt the cookies.
+ * Supported sources are Chromium-based browsers (Chrome, Chromium, Brave,
+ * Edge, Arc) across all of their profiles, and Firefox. When several
+ * sessions are found, the one that expires last wins.
+ *
+ * On macOS, Chromium browsers encrypt cookies using a key stored in the
+ * keychain. We use the `security` CLI to retrieve the key and decrypt the cookies.
+ *
+ * On Linux, `v10` cookies are encrypted with the hard-coded password
+ * "peanuts" and `v11` cookies with a password from the desktop keyring
+ * (libsecret), which we look up with `secret-tool` when available.
+ *
+ * Firefox stores cookies unencrypted.
  */
 
 import { execSync } from 'child_process';
 import { createDecipheriv, pbkdf2Sync } from 'crypto';
-import { existsSync } from 'fs';
-import { homedir } from 'os';
-import { join } from 'path';
+import { copyFileSync, existsSync, mkdtempSync, readdirSync, rmSync } from 'fs';
+import { homedir, tmpdir } from 'os';
+import { dirname, join } from 'path';
 import Database from 'better-sqlite3';
 import { logger } from './logger.js';
 
@@ -20,24 +30,125 @@ const BLACKSMITH_DOMAIN = 'blacksmith.sh';
 // Priority order: blacksmith_session (Laravel) > general session cookies
 const COOKIE_NAMES = ['blacksmith_session', 'session', '__session', 'connect.sid'];
 
-// Chrome cookie database paths by platform
-const CHROME_COOKIE_PATHS: Record<string, string[]> = {
-  darwin: [
-    join(homedir(), 'Library/Application Support/Google/Chrome/Default/Cookies'),
-    join(homedir(), 'Library/Application Support/Google/Chrome/Profile 1/Cookies'),
-  ],
-  linux: [
-    join(homedir(), '.config/google-chrome/Default/Cookies'),
-    join(homedir(), '.config/chromium/Default/Cookies'),
-  ],
-  win32: [
-    join(
-      process.env['LOCALAPPDATA'] || '',
-      'Google/Chrome/User Data/Default/Network/Cookies'
-    ),
-  ],
+// Microseconds between 1601-01-01 (Chromium's epoch) and 1970-01-01
+const CHROMIUM_EPOCH_OFFSET_US = 11_644_473_600_000_000;
+
+interface BrowserDefinition {
+  kind: 'chromium' | 'firefox';
+  /** Directory holding the browser's profiles, by platform. */
+  dataDirs: Partial<Record<NodeJS.Platform, string>>;
+  /** macOS keychain service holding the cookie password (Chromium only). */
+  keychainService?: string;
+  /** libsecret application attribute for the cookie password (Chromium only). */
+  keyringApplication?: string;
+}
+
+const APP_SUPPORT = join(homedir(), 'Library/Application Support');
+const LOCAL_APP_DATA = process.env['LOCALAPPDATA'] || '';
+const APP_DATA = process.env['APPDATA'] || '';
+
+/**
+ * Known browsers, in the order they are searched.
+ */
+const BROWSERS: Record<string, BrowserDefinition> = {
+  chrome: {
+    kind: 'chromium',
+    dataDirs: {
+      darwin: join(APP_SUPPORT, 'Google/Chrome'),
+      linux: join(homedir(), '.config/google-chrome'),
+      win32: join(LOCAL_APP_DATA, 'Google/Chrome/User Data'),
+    },
+    keychainService: 'Chrome Safe Storage',
+    keyringApplication: 'chrome',
+  },
+  chromium: {
+    kind: 'chromium',
+    dataDirs: {
+      darwin: join(APP_SUPPORT, 'Chromium'),
+      linux: join(homedir(), '.config/chromium'),
+    },
+    keychainService: 'Chromium Safe Storage',
+    keyringApplication: 'chromium',
+  },
+  brave: {
+    kind: 'chromium',
+    dataDirs: {
+      darwin: join(APP_SUPPORT, 'BraveSoftware/Brave-Browser'),
+      linux: join(homedir(), '.config/BraveSoftware/Brave-Browser'),
+      win32: join(LOCAL_APP_DATA, 'BraveSoftware/Brave-Browser/User Data'),
+    },
+    keychainService: 'Brave Safe Storage',
+    keyringApplication: 'brave',
+  },
+  edge: {
+    kind: 'chromium',
+    dataDirs: {
+      darwin: join(APP_SUPPORT, 'Microsoft Edge'),
+      linux: join(homedir(), '.config/microsoft-edge'),
+      win32: join(LOCAL_APP_DATA, 'Microsoft/Edge/User Data'),
+    },
+    keychainService: 'Microsoft Edge Safe Storage',
+    keyringApplication: 'microsoft-edge',
+  },
+  arc: {
+    kind: 'chromium',
+    dataDirs: {
+      darwin: join(APP_SUPPORT, 'Arc/User Data'),
+    },
+    keychainService: 'Arc Safe Storage',
+  },
+  firefox: {
+    kind: 'firefox',
+    dataDirs: {
+      darwin: join(APP_SUPPORT, 'Firefox/Profiles'),
+      linux: join(homedir(), '.mozilla/firefox'),
+      win32: join(APP_DATA, 'Mozilla/Firefox/Profiles'),
+    },
+  },
 };
 
+/**
+ * A cookie database belonging to one browser profile.
+ */
+export interface CookieSource {
+  browser: string;
+  profile: string;
+  path: string;
+  /** Read Blacksmith cookies from this source. */
+  readCookies(stats?: CookieReadStats): SessionCookie[];
+}
+
+/**
+ * Counters filled in while reading a cookie source, for diagnostics.
+ */
+export interface CookieReadStats {
+  /** Encrypted cookies that no available key could decrypt. */
+  undecryptable: number;
+}
+
+/**
+ * A Blacksmith cookie found in a browser, with its value decrypted.
+ */
+export interface SessionCookie {
+  name: string;
+  value: string;
+  /** Expiry as a Unix timestamp in milliseconds, or null for a session cookie. */
+  expiresAt: number | null;
+  browser?: string;
+  profile?: string;
+  /** Whether the value had to be decrypted. */
+  encrypted: boolean;
+}
+
+/**
+ * Candidate decryption keys by encryption version prefix.
+ * Keys are tried in order until one decrypts cleanly.
+ */
+export interface CookieKeys {
+  v10: Buffer[];
+  v11: Buffer[];
+}
+
 interface ChromeCookie {
   name: string;
   value: string;
@@ -50,43 +161,92 @@ interface ChromeCookie {
 }
 
 /**
- * Get the Chrome encryption key from macOS keychain.
+ * Derive a cookie encryption key from a Chrome Safe Storage password.
+ * Chrome uses 'saltysalt' as salt: 1003 iterations on macOS, 1 on Linux.
  */
-function getMacOSEncryptionKey(): Buffer | null {
+function deriveKey(password: string, iterations: number): Buffer {
+  return pbkdf2Sync(password, 'saltysalt', iterations, 16, 'sha1');
+}
+
+/**
+ * Get a Chromium browser's encryption key from macOS keychain.
+ */
+function getMacOSEncryptionKey(service: string): Buffer | null {
   try {
     const result = execSync(
-      'security find-generic-password -s "Chrome Safe Storage" -w',
+      `security find-generic-password -s "${service}" -w`,
       { encoding: 'utf-8', stdio: ['pipe', 'pipe', 'pipe'] }
     ).trim();
 
-    // Derive the actual encryption key using PBKDF2
-    // Chrome uses 'saltysalt' as salt and 1003 iterations
-    const key = pbkdf2Sync(result, 'saltysalt', 1003, 16, 'sha1');
-    return key;
+    return deriveKey(result, 1003);
   } catch {
-    logger.warn('Could not retrieve Chrome encryption key from keychain');
+    logger.warn(`Could not retrieve ${service} key from keychain`);
     return null;
   }
 }
 
 /**
- * Decrypt a Chrome cookie value (macOS).
- * Chrome v10 encryption: AES-128-CBC with PBKDF2 derived key.
+ * Look up the Chrome Safe Storage password in the Linux keyring via libsecret.
+ * Set BLACKSMITH_KEYRING=0 to skip the lookup (it may prompt to unlock the keyring).
+ */
+export function getLinuxKeyringPassword(application: string): string | null {
+  const setting = process.env['BLACKSMITH_KEYRING'];
+  if (setting === '0' || setting === 'false') return null;
+
+  try {
+    const password = execSync(`secret-tool lookup application ${application}`, {
+      encoding: 'utf-8',
+      stdio: ['pipe', 'pipe', 'pipe'],
+      timeout: 5000,
+    }).trim();
+    return password || null;
+  } catch {
+    logger.debug(`No ${application} password found in the keyring`);
+    return null;
+  }
+}
+
+/**
+ * Get the candidate cookie keys for Chrome on Linux.
+ * v10 always uses "peanuts". v11 uses the keyring password; when the
+ * keyring is unavailable Chrome falls back to an empty password.
+ */
+export function getLinuxCookieKeys(keyringPassword: string | null): CookieKeys {
+  const v11 = [deriveKey('', 1)];
+  if (keyringPassword) v11.unshift(deriveKey(keyringPassword, 1));
+
+  return {
+    v10: [deriveKey('peanuts', 1)],
+    v11,
+  };
+}
+
+/**
+ * Decrypt a Chrome cookie value.
+ * Chrome v10/v11 encryption: AES-128-CBC with PBKDF2 derived key.
  *
  * The decrypted value often has a 32-byte MAC/metadata prefix before the actual
  * cookie content. For Laravel sessions, the actual value starts with 'eyJ' (base64).
  */
-function decryptCookieValue(encryptedValue: Buffer, key: Buffer): string | null {
-  try {
-    // Check for v10 prefix (Chrome's encryption version marker)
-    if (encryptedValue.slice(0, 3).toString() !== 'v10') {
-      // Not encrypted or unknown format, try as plain text
-      return encryptedValue.toString('utf-8');
-    }
+export function decryptCookieValue(encryptedValue: Buffer, keys: CookieKeys): string | null {
+  // Check for v10/v11 prefix (Chrome's encryption version marker)
+  const version = encryptedValue.subarray(0, 3).toString();
+  if (version !== 'v10' && version !== 'v11') {
+    // Not encrypted or unknown format, try as plain text
+    return encryptedValue.toString('utf-8');
+  }
 
-    // Remove 'v10' prefix
-    const encrypted = encryptedValue.slice(3);
+  for (const key of keys[version]) {
+    const value = decryptWithKey(encryptedValue.subarray(3), key);
+    if (value !== null) return value;
+  }
 
+  logger.debug(`Could not decrypt ${version} cookie with any available key`);
+  return null;
+}
+
+function decryptWithKey(encrypted: Buffer, key: Buffer): string | null {
+  try {
     // IV is 16 spaces for Chrome
     const iv = Buffer.alloc(16, ' ');
 
@@ -125,92 +285,315 @@ function decryptCookieValue(encryptedValue: Buffer, key: Buffer): string | null
 }
 
 /**
- * Find the Chrome Cookies database file.
+ * Convert a Chromium expires_utc (microseconds since 1601) to Unix milliseconds.
  */
-function findCookieDatabase(): string | null {
-  const platform = process.platform;
-  const paths = CHROME_COOKIE_PATHS[platform];
+function chromiumTimeToUnixMs(expiresUtc: number): number | null {
+  if (!expiresUtc) return null;
+  return Math.floor((expiresUtc - CHROMIUM_EPOCH_OFFSET_US) / 1000);
+}
 
-  if (!paths) {
-    logger.warn(`Unsupported platform for cookie extraction: ${platform}`);
-    return null;
+/**
+ * Get the cookie decryption keys for a Chromium browser on this platform.
+ */
+function getCookieKeys(browser: BrowserDefinition): CookieKeys | null {
+  if (process.platform === 'darwin' && browser.keychainService) {
+    const key = getMacOSEncryptionKey(browser.keychainService);
+    return key ? { v10: [key], v11: [] } : null;
   }
 
-  for (const cookiePath of paths) {
-    if (existsSync(cookiePath)) {
-      logger.debug(`Found Chrome cookie database at: ${cookiePath}`);
-      return cookiePath;
-    }
+  if (process.platform === 'linux') {
+    const password = browser.keyringApplication
+      ? getLinuxKeyringPassword(browser.keyringApplication)
+      : null;
+    return getLinuxCookieKeys(password);
   }
 
-  logger.warn('Chrome cookie database not found');
   return null;
 }
 
 /**
- * Extract Blacksmith session cookie from Chrome.
- * Returns the cookie value or null if not found.
+ * Open a copy of a browser's cookie database, run `read` on it, and delete the copy.
+ * A running browser locks its database and keeps recent writes in the WAL file,
+ * so reading it in place can fail with SQLITE_BUSY or miss fresh cookies.
  */
-export async function extractBlacksmithCookie(): Promise<string | null> {
+function withDatabaseCopy<T>(dbPath: string, read: (db: Database.Database) => T): T {
+  const dir = mkdtempSync(join(tmpdir(), 'blacksmith-cookies-'));
   try {
-    logger.info('Attempting to extract Blacksmith cookie from Chrome...');
+    const copyPath = join(dir, 'cookies.db');
+    copyFileSync(dbPath, copyPath);
+    for (const suffix of ['-wal', '-shm', '-journal']) {
+      if (existsSync(dbPath + suffix)) copyFileSync(dbPath + suffix, copyPath + suffix);
+    }
 
-    const cookieDbPath = findCookieDatabase();
-    if (!cookieDbPath) {
-      return null;
+    // Not read-only, so SQLite can replay the copied WAL into the copy
+    const db = new Database(copyPath, { fileMustExist: true });
+    try {
+      return read(db);
+    } finally {
+      db.close();
     }
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
 
-    // Get encryption key (macOS only for now)
-    let encryptionKey: Buffer | null = null;
-    if (process.platform === 'darwin') {
-      encryptionKey = getMacOSEncryptionKey();
-      if (!encryptionKey) {
-        logger.warn('Could not get Chrome encryption key, will try unencrypted values');
+/**
+ * Read Blacksmith cookies from a Chromium Cookies database.
+ */
+export function readChromiumCookies(
+  cookieDbPath: string,
+  keys: CookieKeys | null,
+  stats?: CookieReadStats
+): SessionCookie[] {
+  return withDatabaseCopy(cookieDbPath, (db) => {
+    const rows = db.prepare(`
+      SELECT name, value, encrypted_value, host_key, path,
+             expires_utc, is_httponly, is_secure
+      FROM cookies
+      WHERE host_key LIKE ?
+    `).all(`%${BLACKSMITH_DOMAIN}%`) as ChromeCookie[];
+
+    const cookies: SessionCookie[] = [];
+    for (const row of rows) {
+      const encrypted = !row.value && row.encrypted_value?.length > 0;
+      const value = getCookieValue(row, keys);
+      if (!value && encrypted && stats) stats.undecryptable++;
+      if (value) {
+        cookies.push({
+          name: row.name,
+          value,
+          expiresAt: chromiumTimeToUnixMs(row.expires_utc),
+          encrypted,
+        });
       }
     }
+    return cookies;
+  });
+}
 
-    // Open the database in read-only mode
-    const db = new Database(cookieDbPath, { readonly: true, fileMustExist: true });
+/**
+ * Read Blacksmith cookies from a Firefox cookies.sqlite database.
+ */
+export function readFirefoxCookies(cookieDbPath: string): SessionCookie[] {
+  return withDatabaseCopy(cookieDbPath, (db) => {
+    const rows = db.prepare(`
+      SELECT name, value, expiry FROM moz_cookies WHERE host LIKE ?
+    `).all(`%${BLACKSMITH_DOMAIN}%`) as { name: string; value: string; expiry: number }[];
+
+    return rows
+      .filter((row) => row.value)
+      .map((row) => ({
+        name: row.name,
+        value: row.value,
+        // Expiry is in seconds, or milliseconds in newer Firefox versions
+        expiresAt: row.expiry ? (row.expiry > 1e11 ? row.expiry : row.expiry * 1000) : null,
+        encrypted: false,
+      }));
+  });
+}
+
+/**
+ * Pick the best session cookie: known session cookie names first (in
+ * priority order), then the one that expires last. Expired cookies are skipped.
+ */
+export function pickSessionCookie(cookies: SessionCookie[], now = Date.now()): SessionCookie | null {
+  const rank = (cookie: SessionCookie) => {
+    const index = COOKIE_NAMES.indexOf(cookie.name);
+    return index === -1 ? COOKIE_NAMES.length : index;
+  };
 
+  const candidates = cookies
+    .filter((cookie) => cookie.expiresAt === null || cookie.expiresAt > now)
+    .sort((a, b) => rank(a) - rank(b) || (b.expiresAt ?? 0) - (a.expiresAt ?? 0));
+
+  return candidates[0] ?? null;
+}
+
+/**
+ * Read the Blacksmith session cookie from a Chromium Cookies database.
+ * Returns the cookie value or null if not found.
+ */
+export function readBlacksmithCookie(cookieDbPath: string, keys: CookieKeys | null): string | null {
+  return pickSessionCookie(readChromiumCookies(cookieDbPath, keys))?.value ?? null;
+}
+
+/**
+ * List the profile directories of a browser that contain a cookie database.
+ */
+function findProfileCookieFiles(browser: BrowserDefinition, dataDir: string): { profile: string; path: string }[] {
+  let entries: string[];
+  try {
+    entries = readdirSync(dataDir, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory())
+      .map((entry) => entry.name);
+  } catch {
+    return [];
+  }
+
+  // Chromium moved Cookies into Network/ in v96; older profiles keep it at the top level
+  const candidates = browser.kind === 'firefox' ? ['cookies.sqlite'] : ['Network/Cookies', 'Cookies'];
+
+  const files: { profile: string; path: string }[] = [];
+  for (const profile of entries) {
+    const path = candidates.map((file) => join(dataDir, profile, file)).find((p) => existsSync(p));
+    if (path) files.push({ profile, path });
+  }
+  return files;
+}
+
+/**
+ * Check whether a profile directory matches BLACKSMITH_BROWSER_PROFILE.
+ * Firefox profile directories are "<random>.<name>", so the name alone also matches.
+ */
+function matchesProfile(profile: string, wanted: string): boolean {
+  return profile === wanted || profile.endsWith(`.${wanted}`);
+}
+
+/**
+ * Find cookie sources on this machine.
+ * BLACKSMITH_BROWSER limits the search to one browser and
+ * BLACKSMITH_BROWSER_PROFILE to one profile directory.
+ */
+export function findCookieSources(): CookieSource[] {
+  const wantedBrowser = process.env['BLACKSMITH_BROWSER']?.toLowerCase();
+  const wantedProfile = process.env['BLACKSMITH_BROWSER_PROFILE'];
+
+  if (wantedBrowser && !BROWSERS[wantedBrowser]) {
+    logger.warn(
+      `Unknown BLACKSMITH_BROWSER "${wantedBrowser}". Supported: ${Object.keys(BROWSERS).join(', ')}`
+    );
+    return [];
+  }
+
+  const sources: CookieSource[] = [];
+
+  for (const [name, browser] of Object.entries(BROWSERS)) {
+    if (wantedBrowser && name !== wantedBrowser) continue;
+
+    const dataDir = browser.dataDirs[process.platform];
+    if (!dataDir || !existsSync(dataDir)) continue;
+
+    // Keys are looked up once per browser, and only if a profile has cookies
+    let keys: CookieKeys | null | undefined;
+    const getKeys = () => (keys === undefined ? (keys = getCookieKeys(browser)) : keys);
+
+    for (const { profile, path } of findProfileCookieFiles(browser, dataDir)) {
+      if (wantedProfile && !matchesProfile(profile, wantedProfile)) continue;
+
+      sources.push({
+        browser: name,
+        profile,
+        path,
+        readCookies: (stats) =>
+          browser.kind === 'firefox' ? readFirefoxCookies(path) : readChromiumCookies(path, getKeys(), stats),
+      });
+    }
+  }
+
+  return sources;
+}
+
+/**
+ * Find the best Blacksmith session cookie across all cookie sources.
+ */
+export function findSessionCookie(sources = findCookieSources()): SessionCookie | null {
+  const cookies: SessionCookie[] = [];
+
+  for (const source of sources) {
     try {
-      // Query for Blacksmith cookies
-      const stmt = db.prepare(`
-        SELECT name, value, encrypted_value, host_key, path,
-               expires_utc, is_httponly, is_secure
-        FROM cookies
-        WHERE host_key LIKE ?
-      `);
-
-      const cookies = stmt.all(`%${BLACKSMITH_DOMAIN}%`) as ChromeCookie[];
-
-      // Look for known session cookie names first
-      for (const name of COOKIE_NAMES) {
-        const cookie = cookies.find((c) => c.name === name);
-        if (cookie) {
-          const value = getCookieValue(cookie, encryptionKey);
-          if (value) {
-            logger.info(`Found Blacksmith session cookie: ${name}`);
-            return value;
-          }
-        }
-      }
+      const found = source.readCookies();
+      logger.debug(`Found ${found.length} Blacksmith cookies in ${source.browser} (${source.profile})`);
+      cookies.push(...found.map((cookie) => ({ ...cookie, browser: source.browser, profile: source.profile })));
+    } catch (error) {
+      // A running browser may hold a lock; other sources can still be used
+      logger.warn(`Could not read cookies from ${source.browser} (${source.profile}) at ${dirname(source.path)}`, error);
+    }
+  }
 
-      // Fall back to any cookie from blacksmith.sh
-      for (const cookie of cookies) {
-        const value = getCookieValue(cookie, encryptionKey);
-        if (value) {
-          logger.info(`Found Blacksmith cookie: ${cookie.name}`);
-          return value;
-        }
-      }
+  return pickSessionCookie(cookies);
+}
 
-      logger.warn('No Blacksmith session cookie found in Chrome');
+/**
+ * What one cookie source held, for diagnostics. Never includes cookie values.
+ */
+export interface CookieSourceReport {
+  browser: string;
+  profile: string;
+  path: string;
+  cookies_found: number;
+  undecryptable: number;
+  error?: string;
+}
+
+/**
+ * Find the session cookie the server would use, and report where it came from.
+ * The returned value must never be shown to the user.
+ */
+export function diagnoseSessionCookie(): {
+  cookie: SessionCookie | null;
+  source: 'env' | 'browser' | null;
+  sources: CookieSourceReport[];
+} {
+  const sources: CookieSourceReport[] = [];
+  const cookies: SessionCookie[] = [];
+
+  for (const source of findCookieSources()) {
+    const stats: CookieReadStats = { undecryptable: 0 };
+    const report: CookieSourceReport = {
+      browser: source.browser,
+      profile: source.profile,
+      path: source.path,
+      cookies_found: 0,
+      undecryptable: 0,
+    };
+    try {
+      const found = source.readCookies(stats);
+      report.cookies_found = found.length;
+      cookies.push(...found.map((cookie) => ({ ...cookie, browser: source.browser, profile: source.profile })));
+    } catch (error) {
+      report.error = error instanceof Error ? error.message : String(error);
+    }
+    report.undecryptable = stats.undecryptable;
+    sources.push(report);
+  }
+
+  const envCookie = process.env['BLACKSMITH_SESSION_COOKIE'];
+  if (envCookie) {
+    return {
+      cookie: { name: 'blacksmith_session', value: envCookie, expiresAt: null, encrypted: false },
+      source: 'env',
+      sources,
+    };
+  }
+
+  const cookie = pickSessionCookie(cookies);
+  return { cookie, source: cookie ? 'browser' : null, sources };
+}
+
+/**
+ * Extract Blacksmith session cookie from the browser.
+ * Returns the cookie value or null if not found.
+ */
+export async function extractBlacksmithCookie(): Promise<string | null> {
+  try {
+    logger.info('Attempting to extract Blacksmith cookie from the browser...');
+
+    const sources = findCookieSources();
+    if (sources.length === 0) {
+      logger.warn('No browser cookie database found');
       return null;
-    } finally {
-      db.close();
     }
+
+    const cookie = findSessionCookie(sources);
+    if (!cookie) {
+      logger.warn('No Blacksmith session cookie found in the browser');
+      return null;
+    }
+
+    logger.info(`Found Blacksmith cookie ${cookie.name} in ${cookie.browser} (${cookie.profile})`);
+    return cookie.value;
   } catch (error) {
-    logger.error('Failed to extract cookie from Chrome', error);
+    logger.error('Failed to extract cookie from the browser', error);
     return null;
   }
 }
@@ -218,7 +601,7 @@ export async function extractBlacksmithCookie(): Promise<string | null> {
 /**
  * Get the decrypted value of a cookie.
  */
-function getCookieValue(cookie: ChromeCookie, encryptionKey: Buffer | null): string | null {
+function getCookieValue(cookie: ChromeCookie, keys: CookieKeys | null): string | null {
   // Try plain text value first (unencrypted cookies)
   if (cookie.value && cookie.value.length > 0) {
     return cookie.value;
@@ -226,8 +609,8 @@ function getCookieValue(cookie: ChromeCookie, encryptionKey: Buffer | null): str
 
   // Try to decrypt encrypted value
   if (cookie.encrypted_value && cookie.encrypted_value.length > 0) {
-    if (encryptionKey) {
-      return decryptCookieValue(cookie.encrypted_value, encryptionKey);
+    if (keys) {
+      return decryptCookieValue(cookie.encrypted_value, keys);
     }
     logger.debug(`Cookie ${cookie.name} is encrypted but no decryption key available`);
   }
@@ -236,8 +619,8 @@ function getCookieValue(cookie: ChromeCookie, encryptionKey: Buffer | null): str
 }
 
 /**
- * Get session cookie from environment or Chrome.
- * Priority: ENV var > Chrome extraction
+ * Get session cookie from environment or the browser.
+ * Priority: ENV var > browser extraction
  */
 export async function getSessionCookie(): Promise<string | null> {
   // Check env var first
@@ -247,6 +630,6 @@ export async function getSessionCookie(): Promise<string | null> {
     return envCookie;
   }
 
-  // Try to extract from Chrome
+  // Try to extract from the browser
   return extractBlacksmithCookie();
 }
@@ -14,12 +14,8 @@ export class BlacksmithError extends Error {
 }
 
 export class SessionExpiredError extends BlacksmithError {
-  constructor() {
-    super(
-      'Blacksmith session cookie expired. Please refresh your cookie.',
-      'SESSION_EXPIRED',
-      401
-    );
+  constructor(message = 'Blacksmith session cookie expired. Please refresh your cookie.') {
+    super(message, 'SESSION_EXPIRED', 401);
     this.name = 'SessionExpiredError';
   }
 }
@@ -32,12 +28,33 @@ export class ConfigurationError extends BlacksmithError {
 }
 
 export class ApiError extends BlacksmithError {
-  constructor(message: string, statusCode: number) {
+  constructor(
+    message: string,
+    statusCode: number,
+    public readonly retries = 0
+  ) {
     super(message, 'API_ERROR', statusCode);
     this.name = 'ApiError';
   }
 }
 
+export class NetworkError extends BlacksmithError {
+  constructor(
+    message: string,
+    public readonly retries = 0
+  ) {
+    super(message, 'NETWORK_ERROR');
+    this.name = 'NetworkError';
+  }
+}
+
+export class CancelledError extends BlacksmithError {
+  constructor() {
+    super('Operation cancelled by the client.', 'CANCELLED');
+    this.name = 'CancelledError';
+  }
+}
+
 /**
  * Format an error for MCP tool response.
  */
@@ -45,12 +62,14 @@ export function formatErrorResponse(error: unknown): {
   error: string;
   message: string;
   hint?: string;
+  status?: number;
+  retries?: number;
 } {
   if (error instanceof SessionExpiredError) {
     return {
       error: 'SESSION_EXPIRED',
       message: error.message,
-      hint: 'Extract a fresh session cookie from your browser and update BLACKSMITH_SESSION_COOKIE',
+      hint: 'Log into app.blacksmith.sh in your browser and retry; the new session is picked up automatically. If you set BLACKSMITH_SESSION_COOKIE, update it and restart the server.',
     };
   }
 
@@ -65,6 +84,27 @@ export function formatErrorResponse(error: unknown): {
     return {
       error: 'API_ERROR',
       message: error.message,
+      status: error.statusCode,
+      ...(error.retries > 0 && { retries: error.retries }),
+      ...(error.statusCode === 429 && {
+        hint: 'Blacksmith is rate limiting requests. Wait a minute, or analyze fewer runs per call.',
+      }),
+    };
+  }
+
+  if (error instanceof NetworkError) {
+    return {
+      error: 'NETWORK_ERROR',
+      message: error.message,
+      ...(error.retries > 0 && { retries: error.retries }),
+      hint: 'Could not reach the Blacksmith API. Check your network connection.',
+    };
+  }
+
+  if (error instanceof CancelledError) {
+    return {
+      error: 'CANCELLED',
+      message: error.message,
     };
   }
 
@@ -0,0 +1,103 @@
+/**
+ * Flakiness scoring for test results.
+ *
+ * A test that fails and then passes on the same commit is flaky; one that
+ * only fails on a run of consecutive commits is more likely a regression.
+ */
+
+/**
+ * One result of a test, from one attempt of one job in a run.
+ */
+export interface TestAttemptResult {
+  run_id: string;
+  job_name: string;
+  sha: string | null;
+  attempt: number;
+  status: string;
+  date?: string;
+}
+
+export interface FlakeEvidence {
+  classification: 'flaky' | 'possibly_flaky' | 'likely_regression';
+  confidence: number;
+  /** Runs where an attempt failed and a later attempt of the same SHA passed. */
+  retry_flips: number;
+  /** SHAs with both passes and failures across separate runs. */
+  mixed_shas: number;
+  /** SHAs where the test only failed. */
+  fail_only_shas: number;
+  shas_seen: number;
+}
+
+// How much each kind of evidence contributes to the flakiness confidence.
+// A pass on retry of the same code is the strongest signal; a SHA that only
+// failed may just be a broken commit.
+const RETRY_FLIP_WEIGHT = 0.5;
+const MIXED_SHA_WEIGHT = 0.35;
+const FAIL_ONLY_SHA_WEIGHT = 0.1;
+
+/**
+ * Score how likely a test's failures are flakes rather than regressions,
+ * by grouping its results by commit SHA.
+ */
+export function scoreFlakiness(results: TestAttemptResult[]): FlakeEvidence {
+  const bySha = new Map<string, TestAttemptResult[]>();
+  for (const result of results) {
+    if (result.status !== 'pass' && result.status !== 'fail') continue;
+    const key = result.sha ?? `run:${result.run_id}`;
+    bySha.set(key, [...(bySha.get(key) ?? []), result]);
+  }
+
+  let retryFlips = 0;
+  let mixedShas = 0;
+  let failOnlyShas = 0;
+  const failOnlyByDate: { date: string; failOnly: boolean }[] = [];
+
+  for (const [, shaResults] of bySha) {
+    const hasPass = shaResults.some(r => r.status === 'pass');
+    const hasFail = shaResults.some(r => r.status === 'fail');
+
+    if (hasPass && hasFail) {
+      // Count runs where a failed attempt was followed by a passing one
+      const flips = new Set(
+        shaResults
+          .filter(failed => failed.status === 'fail' && shaResults.some(passed =>
+            passed.status === 'pass' && passed.run_id === failed.run_id &&
+            passed.job_name === failed.job_name && passed.attempt > failed.attempt))
+          .map(r => r.run_id)
+      ).size;
+      if (flips > 0) retryFlips += flips;
+      else mixedShas++;
+    } else if (hasFail) {
+      failOnlyShas++;
+    }
+
+    const firstSeen = shaResults.map(r => r.date ?? '').sort()[0] ?? '';
+    failOnlyByDate.push({ date: firstSeen, failOnly: hasFail && !hasPass });
+  }
+
+  // Failures confined to one consecutive block of commits look like a
+  // regression that was later fixed (or is still broken)
+  failOnlyByDate.sort((a, b) => a.date.localeCompare(b.date));
+  const failBlocks = failOnlyByDate.filter((entry, i) => entry.failOnly && !failOnlyByDate[i - 1]?.failOnly).length;
+
+  const confidence = 1
+    - (1 - RETRY_FLIP_WEIGHT) ** retryFlips
+    * (1 - MIXED_SHA_WEIGHT) ** mixedShas
+    * (1 - FAIL_ONLY_SHA_WEIGHT) ** failOnlyShas;
+
+  const classification = retryFlips > 0 || mixedShas > 0
+    ? 'flaky'
+    : failBlocks === 1
+      ? 'likely_regression'
+      : 'possibly_flaky';
+
+  return {
+    classification,
+    confidence: Math.round(confidence * 100) / 100,
+    retry_flips: retryFlips,
+    mixed_shas: mixedShas,
+    fail_only_shas: failOnlyShas,
+    shas_seen: bySha.size,
+  };
+}
@@ -0,0 +1,348 @@
+/**
+ * Local SQLite history store.
+ *
+ * Opt-in persistent record of every workflow run, job and test result the
+ * client sees, so history tools can answer months of data without re-fetching.
+ * Enable by setting BLACKSMITH_HISTORY_DB to a file path (or "1" for the
+ * default location, ~/.blacksmith-mcp/history.db).
+ */
+
+import { mkdirSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import Database from 'better-sqlite3';
+import { logger } from './logger.js';
+import type {
+  WorkflowRun,
+  RunDetailResponse,
+  JobSummary,
+  TestResult,
+} from '../types/blacksmith.js';
+
+const DEFAULT_HISTORY_PATH = join(homedir(), '.blacksmith-mcp', 'history.db');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS runs (
+    id TEXT PRIMARY KEY,
+    org TEXT NOT NULL,
+    workflow_name TEXT,
+    repository TEXT,
+    branch TEXT,
+    sha TEXT,
+    status TEXT,
+    created_at TEXT,
+    tests_synced INTEGER NOT NULL DEFAULT 0,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS runs_org_created ON runs (org, created_at);
+
+  CREATE TABLE IF NOT EXISTS jobs (
+    id TEXT PRIMARY KEY,
+    run_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    conclusion TEXT,
+    runtime_seconds REAL,
+    tests_synced INTEGER NOT NULL DEFAULT 0,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS jobs_run ON jobs (run_id);
+  CREATE INDEX IF NOT EXISTS jobs_name ON jobs (name);
+
+  CREATE TABLE IF NOT EXISTS tests (
+    id TEXT PRIMARY KEY,
+    run_id TEXT,
+    job_id TEXT NOT NULL,
+    test_suite TEXT,
+    test_name TEXT NOT NULL,
+    test_status TEXT NOT NULL,
+    created_at TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS tests_job ON tests (job_id);
+
+  CREATE TABLE IF NOT EXISTS sync_log (
+    org TEXT NOT NULL,
+    start_date TEXT NOT NULL,
+    end_date TEXT NOT NULL,
+    synced_at TEXT NOT NULL
+  );
+`;
+
+export interface JobTestRun {
+  run: WorkflowRun;
+  job: JobSummary;
+  /** Full test results, or null if this job's tests were never fully recorded. */
+  tests: TestResult[] | null;
+  /** Server-reported test count, when it differs from tests.length. */
+  totalCount?: number;
+}
+
+export interface HistoryStats {
+  path: string;
+  runs: number;
+  jobs: number;
+  tests: number;
+  oldest_run: string | null;
+  newest_run: string | null;
+  last_synced_at: string | null;
+}
+
+export class HistoryStore {
+  private readonly db: Database.Database;
+
+  constructor(readonly path: string) {
+    mkdirSync(dirname(path), { recursive: true });
+    this.db = new Database(path);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+  }
+
+  /**
+   * Record workflow runs from a runs listing.
+   */
+  recordRuns(org: string, runs: WorkflowRun[]): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO runs (id, org, workflow_name, repository, branch, sha, status, created_at, data)
+      VALUES (@id, @org, @workflow_name, @repository, @branch, @sha, @status, @created_at, @data)
+      ON CONFLICT (id) DO UPDATE SET
+        status = excluded.status, data = excluded.data
+    `);
+
+    this.write(() => {
+      for (const run of runs) {
+        stmt.run({
+          id: String(run.id),
+          org,
+          workflow_name: run.workflow_name ?? run.name ?? null,
+          repository: run.repository_name ?? run.repository?.full_name ?? null,
+          branch: run.branch_name ?? run.head_branch ?? null,
+          sha: run.head_commit?.sha ?? run.head_sha ?? null,
+          status: run.status ?? run.conclusion ?? null,
+          created_at: run.created_at ?? null,
+          data: JSON.stringify(run),
+        });
+      }
+    });
+  }
+
+  /**
+   * Record the jobs embedded in a run detail response.
+   */
+  recordRunDetail(run: RunDetailResponse): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO jobs (id, run_id, name, conclusion, runtime_seconds, data)
+      VALUES (@id, @run_id, @name, @conclusion, @runtime_seconds, @data)
+      ON CONFLICT (id) DO UPDATE SET
+        conclusion = excluded.conclusion,
+        runtime_seconds = excluded.runtime_seconds,
+        data = excluded.data
+    `);
+
+    this.write(() => {
+      for (const job of run.jobs ?? []) {
+        stmt.run({
+          id: String(job.id),
+          run_id: String(run.run_id),
+          name: job.name,
+          conclusion: job.conclusion ?? null,
+          runtime_seconds: job.runtime_seconds ?? null,
+          data: JSON.stringify(job),
+        });
+      }
+    });
+  }
+
+  /**
+   * Record test results for a run.
+   * Set `complete` when the results are the job's (or, without `jobId`, the
+   * whole run's) full result set rather than a status-filtered subset.
+   */
+  recordTests(
+    runId: string,
+    tests: TestResult[],
+    options: { jobId?: string; complete?: boolean } = {}
+  ): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO tests (id, run_id, job_id, test_suite, test_name, test_status, created_at, data)
+      VALUES (@id, @run_id, @job_id, @test_suite, @test_name, @test_status, @created_at, @data)
+      ON CONFLICT (id) DO UPDATE SET
+        test_status = excluded.test_status, data = excluded.data
+    `);
+
+    this.write(() => {
+      for (const test of tests) {
+        stmt.run({
+          id: String(test.id),
+          run_id: runId,
+          job_id: String(test.job_id ?? options.jobId),
+          test_suite: test.test_suite,
+          test_name: test.test_name,
+          test_status: test.test_status,
+          created_at: test.created_at ?? null,
+          data: JSON.stringify(test),
+        });
+      }
+
+      if (!options.complete) return;
+      if (options.jobId) {
+        this.db.prepare('UPDATE jobs SET tests_synced = 1 WHERE id = ?').run(options.jobId);
+      } else {
+        this.db.prepare('UPDATE runs SET tests_synced = 1 WHERE id = ?').run(runId);
+      }
+    });
+  }
+
+  /**
+   * Check whether a run's jobs and tests have been fully recorded.
+   */
+  isRunSynced(runId: string): boolean {
+    const row = this.db
+      .prepare('SELECT tests_synced FROM runs WHERE id = ?')
+      .get(runId) as { tests_synced: number } | undefined;
+    return row?.tests_synced === 1;
+  }
+
+  /**
+   * Record that a date range was fully backfilled, tests included.
+   */
+  markSynced(org: string, startDate: string, endDate: string): void {
+    this.write(() => {
+      this.db
+        .prepare('INSERT INTO sync_log (org, start_date, end_date, synced_at) VALUES (?, ?, ?, ?)')
+        .run(org, startDate, endDate, new Date().toISOString());
+    });
+  }
+
+  /**
+   * Find how far backfilled ranges cover [startDate, endDate] without a gap,
+   * starting from startDate. A range only counts up to when it was synced,
+   * since runs created after that were never listed. Returns null when
+   * startDate itself isn't covered.
+   */
+  getSyncedThrough(org: string, startDate: string, endDate: string): string | null {
+    const rows = this.db
+      .prepare('SELECT start_date, end_date, synced_at FROM sync_log WHERE org = ? ORDER BY start_date')
+      .all(org) as { start_date: string; end_date: string; synced_at: string }[];
+
+    const dayStart = (date: string) => new Date(`${date.slice(0, 10)}T00:00:00Z`).getTime();
+    const start = new Date(startDate).getTime();
+    let covered = start;
+    for (const row of rows) {
+      const to = Math.min(dayStart(row.end_date) + DAY_MS, new Date(row.synced_at).getTime());
+      if (dayStart(row.start_date) <= covered && to > covered) covered = to;
+    }
+
+    if (covered <= start) return null;
+    return new Date(Math.min(covered, new Date(endDate).getTime())).toISOString();
+  }
+
+  /**
+   * Get recorded runs of a job in a date range, newest first, with their tests.
+   * Without a job name, every recorded job is returned. Repository, workflow
+   * and branch narrow the runs the same way the runs listing filters do.
+   */
+  getJobTestRuns(params: {
+    org: string;
+    jobName?: string;
+    repository?: string;
+    workflowName?: string;
+    branch?: string;
+    startDate: string;
+    endDate: string;
+  }): JobTestRun[] {
+    const rows = this.db.prepare(`
+      SELECT runs.data AS run_data, jobs.id AS job_id, jobs.data AS job_data,
+             (jobs.tests_synced OR runs.tests_synced) AS tests_synced
+      FROM jobs
+      JOIN runs ON runs.id = jobs.run_id
+      WHERE runs.org = @org AND runs.created_at >= @startDate AND runs.created_at <= @endDate
+        AND (@jobName IS NULL OR jobs.name = @jobName)
+        AND (@repository IS NULL OR runs.repository = @repository COLLATE NOCASE)
+        AND (@workflowName IS NULL OR runs.workflow_name = @workflowName)
+        AND (@branch IS NULL OR runs.branch = @branch)
+      ORDER BY runs.created_at DESC
+    `).all({
+      org: params.org,
+      jobName: params.jobName ?? null,
+      repository: params.repository ?? null,
+      workflowName: params.workflowName ?? null,
+      branch: params.branch ?? null,
+      startDate: params.startDate,
+      endDate: params.endDate,
+    }) as {
+      run_data: string;
+      job_id: string;
+      job_data: string;
+      tests_synced: number;
+    }[];
+
+    const testsStmt = this.db.prepare('SELECT data FROM tests WHERE job_id = ?');
+
+    return rows.map((row) => ({
+      run: JSON.parse(row.run_data) as WorkflowRun,
+      job: JSON.parse(row.job_data) as JobSummary,
+      tests: row.tests_synced
+        ? (testsStmt.all(row.job_id) as { data: string }[]).map((t) => JSON.parse(t.data) as TestResult)
+        : null,
+    }));
+  }
+
+  /**
+   * Get row counts and coverage for the store.
+   */
+  getStats(org: string): HistoryStats {
+    const count = (sql: string) => (this.db.prepare(sql).get(org) as { n: number }).n;
+    const range = this.db
+      .prepare('SELECT MIN(created_at) AS oldest, MAX(created_at) AS newest FROM runs WHERE org = ?')
+      .get(org) as { oldest: string | null; newest: string | null };
+    const lastSync = this.db
+      .prepare('SELECT MAX(synced_at) AS synced_at FROM sync_log WHERE org = ?')
+      .get(org) as { synced_at: string | null };
+
+    return {
+      path: this.path,
+      runs: count('SELECT COUNT(*) AS n FROM runs WHERE org = ?'),
+      jobs: count('SELECT COUNT(*) AS n FROM jobs JOIN runs ON runs.id = jobs.run_id WHERE runs.org = ?'),
+      tests: count('SELECT COUNT(*) AS n FROM tests JOIN jobs ON jobs.id = tests.job_id JOIN runs ON runs.id = jobs.run_id WHERE runs.org = ?'),
+      oldest_run: range.oldest,
+      newest_run: range.newest,
+      last_synced_at: lastSync.synced_at,
+    };
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Run writes in a transaction. Recording is best-effort: a failed write
+   * is logged and never fails the API call that produced the data.
+   */
+  private write(fn: () => void): void {
+    try {
+      this.db.transaction(fn)();
+    } catch (error) {
+      logger.warn('Failed to record data in history store', error);
+    }
+  }
+}
+
+/**
+ * Open the history store if enabled via BLACKSMITH_HISTORY_DB.
+ */
+export function createHistoryStoreFromEnv(): HistoryStore | null {
+  const setting = process.env['BLACKSMITH_HISTORY_DB'];
+  if (!setting || setting === '0' || setting === 'false') return null;
+
+  const path = setting === '1' || setting === 'true' ? DEFAULT_HISTORY_PATH : setting;
+
+  try {
+    const store = new HistoryStore(path);
+    logger.info(`History store enabled at ${path}`);
+    return store;
+  } catch (error) {
+    logger.error(`Failed to open history store at ${path}`, error);
+    return null;
+  }
+}
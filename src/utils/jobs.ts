@@ -0,0 +1,64 @@
+/**
+ * Job name patterns for the test-history tools.
+ *
+ * A pattern is an exact job name ("Test"), a glob where `*` matches anything
+ * ("Test (shard *)", case-insensitive), or a regular expression between
+ * slashes ("/^Test \(shard \d+\/4\)$/i"). No pattern matches every job.
+ */
+
+export interface JobMatcher {
+  /** The pattern as given, or null to match every job. */
+  pattern: string | null;
+  /** The job name when the pattern is an exact name, so lookups can filter by it directly. */
+  exact: string | null;
+  matches(name: string): boolean;
+}
+
+const REGEX_PATTERN = /^\/(.+)\/([a-z]*)$/;
+
+/**
+ * Parse a job pattern. Returns null when a regex pattern doesn't compile.
+ */
+export function parseJobPattern(pattern: string | undefined): JobMatcher | null {
+  if (!pattern) {
+    return { pattern: null, exact: null, matches: () => true };
+  }
+
+  const regexMatch = REGEX_PATTERN.exec(pattern);
+  if (regexMatch) {
+    let regex: RegExp;
+    try {
+      // g and y make test() stateful across calls, so matching would skip names
+      regex = new RegExp(regexMatch[1] ?? '', (regexMatch[2] ?? '').replace(/[gy]/g, ''));
+    } catch {
+      return null;
+    }
+    return { pattern, exact: null, matches: (name) => regex.test(name) };
+  }
+
+  if (pattern.includes('*')) {
+    const escaped = pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+    const regex = new RegExp(`^${escaped.join('.*')}$`, 'i');
+    return { pattern, exact: null, matches: (name) => regex.test(name) };
+  }
+
+  return { pattern, exact: pattern, matches: (name) => name === pattern };
+}
+
+/**
+ * Describe what a matcher selects, for messages.
+ */
+export function describeJobPattern(matcher: JobMatcher): string {
+  if (matcher.pattern === null) return 'any job with test results';
+  return matcher.exact !== null ? `job "${matcher.exact}"` : `jobs matching "${matcher.pattern}"`;
+}
+
+/**
+ * Soft error for a job_name pattern that doesn't parse.
+ */
+export function invalidJobPattern(pattern: string | undefined) {
+  return {
+    error: `Invalid job_name pattern: ${pattern}`,
+    suggestion: 'Use an exact job name, a glob like "Test (shard *)", or a valid /regex/.',
+  };
+}
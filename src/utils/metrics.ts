@@ -0,0 +1,245 @@
+/**
+ * Shared utilities for job VM metrics and runner sizing.
+ */
+
+import type { BlacksmithClient } from '../client.js';
+import type { JobMetrics } from '../types/blacksmith.js';
+
+export interface SeriesStats {
+  peak: number;
+  mean: number;
+  p95: number;
+  samples: number;
+}
+
+export interface RunnerSpec {
+  label: string;
+  vcpus: number;
+  memory_gb: number;
+  arch: 'x64' | 'arm64';
+}
+
+export type ProvisioningStatus =
+  | 'over_provisioned'
+  | 'under_provisioned'
+  | 'cpu_bound'
+  | 'memory_bound'
+  | 'well_sized'
+  | 'unknown';
+
+// Blacksmith runners ship with 4 GB of RAM per vCPU on both architectures.
+const MEMORY_GB_PER_VCPU = 4;
+
+// Available runner sizes, smallest first.
+export const RUNNER_VCPU_SIZES = [2, 4, 8, 16, 32];
+
+// Blacksmith list price per vCPU-minute (2vcpu x64 = $0.004/min, arm is cheaper).
+const PRICE_PER_VCPU_MINUTE: Record<RunnerSpec['arch'], number> = {
+  x64: 0.002,
+  arm64: 0.00125,
+};
+
+// Billable minutes are counted at the 2 vCPU x64 rate.
+export const LIST_PRICE_PER_BILLABLE_MINUTE = 2 * PRICE_PER_VCPU_MINUTE.x64;
+
+/**
+ * Compute peak, mean and p95 for a metrics series.
+ */
+export function summarizeSeries(points: JobMetrics['cpu']): SeriesStats | null {
+  const values = points
+    .map((p) => p.value)
+    .filter((v) => typeof v === 'number' && !isNaN(v))
+    .sort((a, b) => a - b);
+
+  if (values.length === 0) return null;
+
+  const round = (n: number) => Math.round(n * 100) / 100;
+  const p95Index = Math.min(values.length - 1, Math.ceil(values.length * 0.95) - 1);
+
+  return {
+    peak: round(values[values.length - 1] ?? 0),
+    mean: round(values.reduce((a, b) => a + b, 0) / values.length),
+    p95: round(values[p95Index] ?? 0),
+    samples: values.length,
+  };
+}
+
+/**
+ * Parse vCPU count and RAM from a Blacksmith runner label.
+ * e.g. "blacksmith-4vcpu-ubuntu-2204" -> 4 vCPU, 16 GB, x64
+ */
+export function parseRunnerLabel(label: string): RunnerSpec | null {
+  const match = label.match(/^blacksmith-(\d+)vcpu-/i);
+  if (!match?.[1]) return null;
+
+  const vcpus = parseInt(match[1], 10);
+  return {
+    label,
+    vcpus,
+    memory_gb: vcpus * MEMORY_GB_PER_VCPU,
+    arch: /-arm$/i.test(label) ? 'arm64' : 'x64',
+  };
+}
+
+/**
+ * Find the Blacksmith runner spec from a job's labels.
+ */
+export function getRunnerSpec(labels: string[] | undefined): RunnerSpec | null {
+  for (const label of labels ?? []) {
+    const spec = parseRunnerLabel(label);
+    if (spec) return spec;
+  }
+  return null;
+}
+
+/**
+ * Get the list price per minute for a runner.
+ */
+export function getListPricePerMinute(spec: RunnerSpec): number {
+  return spec.vcpus * PRICE_PER_VCPU_MINUTE[spec.arch];
+}
+
+/**
+ * Round a job's runtime up to whole billed minutes.
+ * GitHub-style billing rounds each job up to the whole minute.
+ */
+export function toBilledMinutes(runtimeSeconds: number): number {
+  return Math.max(1, Math.ceil(runtimeSeconds / 60));
+}
+
+/**
+ * Estimate the cost of running a job for the given duration on a runner.
+ */
+export function estimateJobCost(spec: RunnerSpec, runtimeSeconds: number): number {
+  return toBilledMinutes(runtimeSeconds) * getListPricePerMinute(spec);
+}
+
+/**
+ * Build the label for the same runner at a different size.
+ * e.g. ("blacksmith-16vcpu-ubuntu-2204", 4) -> "blacksmith-4vcpu-ubuntu-2204"
+ */
+export function resizeRunnerLabel(label: string, vcpus: number): string {
+  return label.replace(/^blacksmith-\d+vcpu-/i, `blacksmith-${vcpus}vcpu-`);
+}
+
+// Share of time at saturated CPU that suggests a job would use more cores.
+const SATURATED_UPSIZE_FRACTION = 0.25;
+
+export interface RunnerSizing {
+  vcpus: number;
+  /** The job needs more than the largest runner size; vcpus is the largest size. */
+  exceedsLargest: boolean;
+}
+
+/**
+ * Pick the smallest runner size with the vCPUs and memory a job needs at peak.
+ * With memoryGb null the memory need is unknown, so nothing smaller than the
+ * current size is picked. A job pinned at 100% CPU gives no signal about how
+ * many cores it could use, so one spending a meaningful share of its time
+ * saturated is moved at least one size up.
+ */
+export function pickRunnerSize(
+  current: RunnerSpec,
+  needs: { vcpus: number; memoryGb: number | null; saturatedFraction: number }
+): RunnerSizing {
+  const largest = Math.max(current.vcpus, ...RUNNER_VCPU_SIZES);
+  const memoryPerVcpu = current.memory_gb / current.vcpus;
+  const minVcpus = needs.memoryGb === null ? current.vcpus : 0;
+
+  const fits = RUNNER_VCPU_SIZES.find(
+    (size) => size >= minVcpus && size >= needs.vcpus && size * memoryPerVcpu >= (needs.memoryGb ?? 0)
+  );
+  if (fits === undefined) return { vcpus: largest, exceedsLargest: true };
+
+  if (needs.saturatedFraction >= SATURATED_UPSIZE_FRACTION && fits <= current.vcpus) {
+    const next = RUNNER_VCPU_SIZES.find((size) => size > current.vcpus);
+    return next === undefined ? { vcpus: largest, exceedsLargest: true } : { vcpus: next, exceedsLargest: false };
+  }
+
+  return { vcpus: fits, exceedsLargest: false };
+}
+
+/**
+ * Convert a memory series to utilization percent.
+ * The metrics endpoint usually reports memory as a percentage, but some VMs
+ * report raw bytes used. Values above 100 are treated as bytes. Returns null
+ * for bytes when the runner's memory size is unknown.
+ */
+export function memoryToPercent(
+  points: JobMetrics['memory'],
+  memoryGb: number | null
+): JobMetrics['memory'] | null {
+  const looksLikeBytes = points.some((p) => p.value > 100);
+  if (!looksLikeBytes) return points;
+  if (!memoryGb) return null;
+
+  const totalBytes = memoryGb * 1024 * 1024 * 1024;
+  return points.map((p) => ({
+    timestamp: p.timestamp,
+    value: (p.value / totalBytes) * 100,
+  }));
+}
+
+/**
+ * Classify a job's resource usage relative to its runner size.
+ */
+export function getProvisioningHint(
+  cpu: SeriesStats | null,
+  memory: SeriesStats | null,
+  spec: RunnerSpec | null
+): { status: ProvisioningStatus; hint: string } {
+  if (!cpu && !memory) {
+    return { status: 'unknown', hint: 'No metrics samples available for this job.' };
+  }
+
+  const runner = spec ? `${spec.vcpus} vCPU / ${spec.memory_gb} GB runner` : 'runner';
+
+  if (memory && memory.peak >= 90) {
+    return {
+      status: cpu && cpu.p95 >= 85 ? 'under_provisioned' : 'memory_bound',
+      hint: `Memory peaked at ${memory.peak}% on the ${runner}. The job is likely memory-bound; consider a larger runner or reducing parallelism.`,
+    };
+  }
+
+  if (cpu && cpu.p95 >= 85) {
+    return {
+      status: 'cpu_bound',
+      hint: `CPU p95 is ${cpu.p95}% on the ${runner}. The job is CPU-bound and would likely finish faster on a larger runner.`,
+    };
+  }
+
+  const smallest = RUNNER_VCPU_SIZES[0] ?? 2;
+  if (cpu && cpu.peak < 50 && (!memory || memory.peak < 50) && (!spec || spec.vcpus > smallest)) {
+    return {
+      status: 'over_provisioned',
+      hint: `CPU never exceeded ${cpu.peak}%${memory ? ` and memory peaked at ${memory.peak}%` : ''} on the ${runner}. A smaller runner would likely cost less with little slowdown.`,
+    };
+  }
+
+  return {
+    status: 'well_sized',
+    hint: `Resource usage looks appropriate for the ${runner}.`,
+  };
+}
+
+/**
+ * Find the VM ID a job ran on.
+ * Uses the vm_id on the job record when present, otherwise falls back to the
+ * log stream, whose NDJSON lines carry the vm_id of the VM that produced them.
+ */
+export async function resolveJobVmId(
+  client: BlacksmithClient,
+  job: { id: number | string; vm_id?: string | null }
+): Promise<string | null> {
+  if (job.vm_id) return job.vm_id;
+
+  const { rawLines } = await client.getJobLogs(String(job.id), { limit: 10 });
+  for (const line of rawLines) {
+    if (line && typeof line === 'object' && 'vm_id' in line) {
+      const vmId = (line as { vm_id?: unknown }).vm_id;
+      if (typeof vmId === 'string' && vmId) return vmId;
+    }
+  }
+
+  return null;
+}
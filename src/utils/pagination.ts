@@ -0,0 +1,146 @@
+/**
+ * Pagination over list endpoints.
+ *
+ * The API is undocumented and inconsistent: some list endpoints return a bare
+ * array, others wrap results with a total count, a `has_more` flag or a next
+ * cursor. Responses are normalized to a `Page`, and `paginate` streams pages
+ * until the server runs out.
+ *
+ * Cursors handed to callers are opaque: they encode the next page number and,
+ * when the server issued one, its own cursor.
+ */
+
+export const DEFAULT_PAGE_SIZE = 100;
+
+/** Upper bound on pages streamed in one call, so an endpoint that ignores paging can't loop forever. */
+export const MAX_PAGES = 50;
+
+export interface PageRequest {
+  page: number;
+  perPage: number;
+  /** Server-issued cursor for this page, if the endpoint uses cursors. */
+  cursor: string | null;
+}
+
+export interface Page<T> {
+  items: T[];
+  page: number;
+  /** Opaque cursor for the next page, or null on the last page. */
+  cursor: string | null;
+  hasMore: boolean;
+  /** Server-reported count of all matching items, when the endpoint provides one. */
+  totalCount: number | null;
+}
+
+const TOTAL_KEYS = ['total_count', 'total', 'count'];
+const CURSOR_KEYS = ['next_cursor', 'cursor', 'next'];
+
+export function encodeCursor(page: number, serverCursor: string | null = null): string {
+  return Buffer.from(JSON.stringify({ p: page, c: serverCursor })).toString('base64url');
+}
+
+/**
+ * Decode a cursor from a previous page. Returns null if it isn't one of ours.
+ */
+export function decodeCursor(cursor: string): { page: number; cursor: string | null } | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8')) as { p?: unknown; c?: unknown };
+    if (typeof parsed.p !== 'number' || !Number.isInteger(parsed.p) || parsed.p < 1) return null;
+    return { page: parsed.p, cursor: typeof parsed.c === 'string' ? parsed.c : null };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Normalize a list response into a page. Items are read from a bare array or
+ * from `itemsKey`; without an explicit `has_more`, cursor or total, a full
+ * page is assumed to have more after it.
+ */
+export function toPage<T>(response: unknown, itemsKey: string, request: PageRequest): Page<T> {
+  const body = typeof response === 'object' && response !== null && !Array.isArray(response)
+    ? (response as Record<string, unknown>)
+    : {};
+  const rawItems = Array.isArray(response) ? response : body[itemsKey];
+  const items = (Array.isArray(rawItems) ? rawItems : []) as T[];
+
+  const total = TOTAL_KEYS.map((key) => body[key]).find((value) => typeof value === 'number');
+  const totalCount = typeof total === 'number' ? total : null;
+  const next = CURSOR_KEYS.map((key) => body[key]).find((value) => typeof value === 'string' && value !== '');
+  const serverCursor = typeof next === 'string' ? next : null;
+
+  const hasMore = typeof body['has_more'] === 'boolean'
+    ? body['has_more']
+    : serverCursor !== null
+      ? true
+      : totalCount !== null
+        ? (request.page - 1) * request.perPage + items.length < totalCount
+        : items.length >= request.perPage;
+
+  return {
+    items,
+    page: request.page,
+    cursor: hasMore && items.length > 0 ? encodeCursor(request.page + 1, serverCursor) : null,
+    hasMore: hasMore && items.length > 0,
+    totalCount,
+  };
+}
+
+/**
+ * Stream pages from a list endpoint, starting at `page` (or a cursor from a
+ * previous page). With `key`, stops when a page repeats items already seen,
+ * which is what an endpoint that ignores paging parameters does.
+ */
+export async function* paginate<T>(
+  fetchPage: (request: PageRequest) => Promise<Page<T>>,
+  options: {
+    page?: number;
+    cursor?: string | null;
+    perPage?: number;
+    maxPages?: number;
+    key?: (item: T) => string;
+    signal?: AbortSignal;
+  } = {}
+): AsyncGenerator<Page<T>> {
+  const perPage = options.perPage ?? DEFAULT_PAGE_SIZE;
+  const start = options.cursor ? decodeCursor(options.cursor) : null;
+  let request: PageRequest = { page: start?.page ?? options.page ?? 1, perPage, cursor: start?.cursor ?? null };
+  const seen = new Set<string>();
+
+  for (let i = 0; i < (options.maxPages ?? MAX_PAGES); i++) {
+    if (options.signal?.aborted) return;
+
+    const page = await fetchPage(request);
+    if (options.key) {
+      const keys = page.items.map(options.key);
+      if (keys.length > 0 && keys.every((k) => seen.has(k))) return;
+      keys.forEach((k) => seen.add(k));
+    }
+    yield page;
+
+    const next = page.hasMore && page.cursor ? decodeCursor(page.cursor) : null;
+    if (!next) return;
+    request = { page: next.page, perPage, cursor: next.cursor };
+  }
+}
+
+/**
+ * Collect streamed pages into one list, stopping once `limit` items are in hand.
+ * `complete` is false when more items were left on the server.
+ */
+export async function collectPages<T>(
+  pages: AsyncIterable<Page<T>>,
+  limit = Infinity
+): Promise<{ items: T[]; complete: boolean }> {
+  const items: T[] = [];
+  let complete = true;
+  for await (const page of pages) {
+    items.push(...page.items);
+    complete = !page.hasMore;
+    if (items.length >= limit) {
+      complete = complete && items.length === limit;
+      return { items: items.slice(0, limit), complete };
+    }
+  }
+  return { items, complete };
+}
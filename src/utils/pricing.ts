@@ -0,0 +1,96 @@
+/**
+ * Runner price table for cost attribution.
+ *
+ * Prices default to Blacksmith list prices derived from the runner label.
+ * BLACKSMITH_PRICES_FILE points at a JSON file that overrides them per
+ * label, e.g. {"prices": {"blacksmith-4vcpu-ubuntu-2204": 0.008, "blacksmith-*-arm": 0.005}}.
+ * Keys may use `*` wildcards; exact labels win over patterns, and patterns
+ * are tried in file order.
+ */
+
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import { ConfigurationError } from './errors.js';
+import { getListPricePerMinute, parseRunnerLabel } from './metrics.js';
+
+const pricesFileSchema = z.object({
+  prices: z.record(z.number().nonnegative()),
+});
+
+export interface RunnerPrice {
+  /** Label the price was matched on. */
+  label: string;
+  /** USD per billed minute. */
+  per_minute: number;
+  source: 'price_table' | 'list_price';
+}
+
+interface PriceEntry {
+  pattern: string;
+  regex: RegExp;
+  perMinute: number;
+}
+
+export class PriceTable {
+  private readonly exact = new Map<string, number>();
+  private readonly patterns: PriceEntry[] = [];
+
+  constructor(
+    prices: Record<string, number> = {},
+    /** Where the prices came from, for reporting. */
+    readonly source: string | null = null
+  ) {
+    for (const [pattern, perMinute] of Object.entries(prices)) {
+      if (!pattern.includes('*')) {
+        this.exact.set(pattern.toLowerCase(), perMinute);
+        continue;
+      }
+      const escaped = pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+      this.patterns.push({ pattern, regex: new RegExp(`^${escaped.join('.*')}$`, 'i'), perMinute });
+    }
+  }
+
+  get size(): number {
+    return this.exact.size + this.patterns.length;
+  }
+
+  /**
+   * Price a job from its runner labels. Returns null for runners with no
+   * configured or list price (e.g. GitHub-hosted runners).
+   */
+  priceFor(labels: string[] | undefined): RunnerPrice | null {
+    for (const label of labels ?? []) {
+      const perMinute = this.exact.get(label.toLowerCase());
+      if (perMinute !== undefined) return { label, per_minute: perMinute, source: 'price_table' };
+    }
+
+    for (const entry of this.patterns) {
+      const label = labels?.find((l) => entry.regex.test(l));
+      if (label) return { label, per_minute: entry.perMinute, source: 'price_table' };
+    }
+
+    for (const label of labels ?? []) {
+      const spec = parseRunnerLabel(label);
+      if (spec) return { label, per_minute: getListPricePerMinute(spec), source: 'list_price' };
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Load the price table from BLACKSMITH_PRICES_FILE, or list prices only if unset.
+ */
+export function loadPriceTableFromEnv(): PriceTable {
+  const file = process.env['BLACKSMITH_PRICES_FILE'];
+  if (!file) return new PriceTable();
+
+  try {
+    const parsed = pricesFileSchema.parse(JSON.parse(readFileSync(file, 'utf-8')));
+    return new PriceTable(parsed.prices, file);
+  } catch (error) {
+    throw new ConfigurationError(
+      `Invalid price file ${file}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * Local flaky-test quarantine list.
+ *
+ * Entries live in a JSON file (BLACKSMITH_QUARANTINE_FILE, or
+ * ~/.blacksmith-mcp/quarantine.json by default) so the list can be
+ * committed, reviewed and exported to test runners.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import { z } from 'zod';
+import { ConfigurationError } from './errors.js';
+
+const DEFAULT_QUARANTINE_PATH = join(homedir(), '.blacksmith-mcp', 'quarantine.json');
+
+const quarantineEntrySchema = z.object({
+  org: z.string(),
+  suite: z.string().nullable(),
+  name: z.string(),
+  job_name: z.string().nullable(),
+  // Scope for finding the test's runs; absent in files written before they were recorded
+  repository: z.string().nullable().default(null),
+  workflow_name: z.string().nullable().default(null),
+  owner: z.string(),
+  reason: z.string(),
+  added_at: z.string(),
+  expires_at: z.string().nullable(),
+});
+
+const quarantineFileSchema = z.object({
+  entries: z.array(quarantineEntrySchema),
+});
+
+export type QuarantineEntry = z.infer<typeof quarantineEntrySchema>;
+
+export type QuarantineExportFormat = 'jest' | 'vitest' | 'pytest' | 'junit';
+
+/**
+ * Get the quarantine file path from BLACKSMITH_QUARANTINE_FILE or the default location.
+ */
+export function getQuarantinePath(): string {
+  return process.env['BLACKSMITH_QUARANTINE_FILE'] || DEFAULT_QUARANTINE_PATH;
+}
+
+/**
+ * Load all quarantine entries. A missing file is an empty list.
+ */
+export function loadQuarantine(): QuarantineEntry[] {
+  const path = getQuarantinePath();
+  if (!existsSync(path)) return [];
+
+  try {
+    return quarantineFileSchema.parse(JSON.parse(readFileSync(path, 'utf-8'))).entries;
+  } catch (error) {
+    throw new ConfigurationError(
+      `Invalid quarantine file ${path}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Write all quarantine entries, replacing the file atomically.
+ */
+export function saveQuarantine(entries: QuarantineEntry[]): void {
+  const path = getQuarantinePath();
+  mkdirSync(dirname(path), { recursive: true });
+
+  const tmpPath = `${path}.${process.pid}.tmp`;
+  writeFileSync(tmpPath, `${JSON.stringify({ entries }, null, 2)}\n`);
+  renameSync(tmpPath, path);
+}
+
+/**
+ * Check whether an entry refers to the given test. A null suite on either
+ * side matches any suite.
+ */
+export function isSameTest(
+  entry: Pick<QuarantineEntry, 'suite' | 'name'>,
+  test: { suite: string | null; name: string }
+): boolean {
+  return entry.name === test.name && (entry.suite === null || test.suite === null || entry.suite === test.suite);
+}
+
+export function isExpired(entry: QuarantineEntry, now = new Date()): boolean {
+  return entry.expires_at !== null && new Date(entry.expires_at) <= now;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Quote a value for a POSIX shell command line.
+ */
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Convert a test to a pytest node ID. JUnit reports from pytest use dotted
+ * class names ("tests.api.test_users.TestLogin"); the module is the last
+ * segment starting with "test", the rest are classes. Best effort.
+ */
+function toPytestNodeId(entry: QuarantineEntry): string {
+  const suite = entry.suite ?? '';
+  if (!suite) return entry.name;
+  if (suite.includes('.py') || suite.includes('/')) return `${suite}::${entry.name}`;
+
+  const segments = suite.split('.');
+  let moduleIndex = -1;
+  segments.forEach((segment, i) => {
+    if (/^test/.test(segment)) moduleIndex = i;
+  });
+  if (moduleIndex === -1) return `${segments.join('/')}.py::${entry.name}`;
+
+  const modulePath = `${segments.slice(0, moduleIndex + 1).join('/')}.py`;
+  return [modulePath, ...segments.slice(moduleIndex + 1), entry.name].join('::');
+}
+
+/**
+ * Render entries in a format a test runner understands.
+ */
+export function exportQuarantine(entries: QuarantineEntry[], format: QuarantineExportFormat): {
+  content: string;
+  usage: string;
+} {
+  switch (format) {
+    case 'jest':
+    case 'vitest': {
+      // Full test names are the describe blocks and test name joined by spaces,
+      // so match the name as the last space-separated part, not any suffix
+      const names = [...new Set(entries.map((e) => escapeRegExp(e.name)))];
+      const pattern = names.length > 0 ? `^(?!(?:.* )?(?:${names.join('|')})$).*$` : '.*';
+      return {
+        content: pattern,
+        usage: `npx ${format} --testNamePattern=${shellQuote(pattern)}`,
+      };
+    }
+    case 'pytest': {
+      const nodeIds = entries.map(toPytestNodeId);
+      return {
+        content: nodeIds.map((id) => `--deselect ${id}`).join('\n'),
+        usage: `pytest ${nodeIds.map((id) => `--deselect ${shellQuote(id)}`).join(' ')}`,
+      };
+    }
+    case 'junit': {
+      const lines = entries.map((e) => (e.suite ? `${e.suite}#${e.name}` : e.name));
+      return {
+        content: lines.join('\n'),
+        usage: 'Save as an excludes file and pass it to Maven Surefire (-Dsurefire.excludesFile=quarantine.txt) or your runner\'s skip list.',
+      };
+    }
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Retry policy for Blacksmith API requests.
+ *
+ * Transient failures (429, 5xx gateway errors, network errors) are retried
+ * with full-jitter exponential backoff. A Retry-After header from the server
+ * takes precedence over the computed delay.
+ */
+
+import { CancelledError } from './errors.js';
+
+export interface RetryOptions {
+  /** Retries after the first attempt (0 disables retrying). */
+  maxRetries: number;
+  /** Base delay for the first retry, doubled on each subsequent retry. */
+  baseDelayMs: number;
+  /** Upper bound for any single delay, including Retry-After. */
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+};
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+/**
+ * Check whether an HTTP status is worth retrying.
+ */
+export function isRetryableStatus(status: number): boolean {
+  return RETRYABLE_STATUSES.has(status);
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP-date) into milliseconds.
+ */
+export function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  if (!isNaN(date)) return Math.max(0, date - Date.now());
+
+  return null;
+}
+
+/**
+ * Compute the delay before retry number `attempt` (0-based).
+ */
+export function getRetryDelay(
+  attempt: number,
+  options: RetryOptions,
+  retryAfterHeader: string | null = null
+): number {
+  const retryAfter = parseRetryAfter(retryAfterHeader);
+  if (retryAfter !== null) return Math.min(retryAfter, options.maxDelayMs);
+
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Wait `ms` milliseconds, rejecting with CancelledError as soon as `signal` aborts.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Read retry options from environment variables.
+ * BLACKSMITH_MAX_RETRIES (default: 3), BLACKSMITH_RETRY_BASE_MS (default: 500).
+ */
+export function retryOptionsFromEnv(): RetryOptions {
+  const options = { ...DEFAULT_RETRY_OPTIONS };
+
+  const maxRetries = process.env['BLACKSMITH_MAX_RETRIES'];
+  if (maxRetries && /^\d+$/.test(maxRetries)) {
+    options.maxRetries = parseInt(maxRetries, 10);
+  }
+
+  const baseDelayMs = process.env['BLACKSMITH_RETRY_BASE_MS'];
+  if (baseDelayMs && /^\d+$/.test(baseDelayMs)) {
+    options.baseDelayMs = parseInt(baseDelayMs, 10);
+  }
+
+  return options;
+}
@@ -2,7 +2,7 @@
  * Shared utilities for workflow run handling.
  */
 
-import type { WorkflowRun } from '../types/blacksmith.js';
+import type { RunDetailResponse, WorkflowRun } from '../types/blacksmith.js';
 
 /**
  * Determine if a workflow run is completed.
@@ -19,3 +19,13 @@ export function isRunCompleted(run: WorkflowRun): boolean {
   if (run.duration_seconds && run.duration_seconds > 0) return true;
   return false;
 }
+
+/**
+ * Determine if a run detail response describes a finished run.
+ * A run is finished once every job has completed.
+ */
+export function isRunDetailCompleted(run: RunDetailResponse): boolean {
+  const jobs = run.jobs ?? [];
+  if (jobs.length === 0) return false;
+  return jobs.every((job) => job.status === 'completed' || Boolean(job.conclusion));
+}
@@ -0,0 +1,108 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createClientForCaller, HttpAuth, loadAuthFromEnv } from '../src/auth.js';
+import { ConfigurationError } from '../src/utils/errors.js';
+
+const ALICE_TOKEN = 'alice-token-0123456789';
+const BOB_TOKEN = 'bob-token-0123456789';
+
+describe('HttpAuth', () => {
+  const auth = new HttpAuth();
+  const alice = { name: 'alice', sessionCookie: 'alice-cookie' };
+  auth.addToken(ALICE_TOKEN, alice);
+
+  it('resolves the caller for a registered bearer token', () => {
+    expect(auth.authenticate(`Bearer ${ALICE_TOKEN}`)).toBe(alice);
+    expect(auth.authenticate(`bearer  ${ALICE_TOKEN} `)).toBe(alice);
+  });
+
+  it('rejects wrong, missing and malformed tokens', () => {
+    expect(auth.authenticate(`Bearer ${ALICE_TOKEN}x`)).toBeNull();
+    expect(auth.authenticate(`Bearer ${BOB_TOKEN}`)).toBeNull();
+    expect(auth.authenticate(ALICE_TOKEN)).toBeNull();
+    expect(auth.authenticate('Bearer ')).toBeNull();
+    expect(auth.authenticate(undefined)).toBeNull();
+  });
+
+  it('refuses guessable tokens', () => {
+    expect(() => auth.addToken('short', { name: 'eve', sessionCookie: null })).toThrow(ConfigurationError);
+  });
+});
+
+describe('loadAuthFromEnv', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'blacksmith-auth-'));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('is disabled without tokens or a key file', () => {
+    vi.stubEnv('BLACKSMITH_HTTP_TOKENS', '');
+    vi.stubEnv('BLACKSMITH_API_KEYS_FILE', '');
+
+    expect(loadAuthFromEnv()).toBeNull();
+  });
+
+  it('maps static tokens to the server session and key file entries to their own', () => {
+    const keysFile = join(dir, 'keys.json');
+    writeFileSync(keysFile, JSON.stringify({ keys: [{ name: 'bob', token: BOB_TOKEN, session_cookie: 'bob-cookie', org: 'acme' }] }));
+    vi.stubEnv('BLACKSMITH_HTTP_TOKENS', ` ${ALICE_TOKEN} ,`);
+    vi.stubEnv('BLACKSMITH_API_KEYS_FILE', keysFile);
+
+    const auth = loadAuthFromEnv();
+
+    expect(auth?.size).toBe(2);
+    expect(auth?.authenticate(`Bearer ${ALICE_TOKEN}`)).toEqual({ name: 'token-1', sessionCookie: null });
+    expect(auth?.authenticate(`Bearer ${BOB_TOKEN}`)).toEqual({ name: 'bob', sessionCookie: 'bob-cookie', org: 'acme' });
+  });
+
+  it('rejects an invalid key file', () => {
+    const keysFile = join(dir, 'keys.json');
+    writeFileSync(keysFile, JSON.stringify({ keys: [{ name: 'bob', token: 'short', session_cookie: 'bob-cookie' }] }));
+    vi.stubEnv('BLACKSMITH_API_KEYS_FILE', keysFile);
+
+    expect(() => loadAuthFromEnv()).toThrow(ConfigurationError);
+  });
+});
+
+describe('createClientForCaller', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it("never shows one caller another caller's cached responses or history", async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'blacksmith-auth-'));
+    vi.stubEnv('BLACKSMITH_HISTORY_DB', join(dir, 'history.db'));
+    const sent: string[] = [];
+    vi.stubGlobal('fetch', async (_url: string, init: RequestInit) => {
+      const cookie = (init.headers as Record<string, string>)['Cookie'] ?? '';
+      sent.push(cookie);
+      return Response.json({ installations: [{ login: cookie }] });
+    });
+
+    try {
+      const alice = createClientForCaller({ name: 'alice', sessionCookie: 'alice-cookie' });
+      const bob = createClientForCaller({ name: 'bob', sessionCookie: 'bob-cookie' });
+
+      await alice.listOrgs();
+      const bobOrgs = await bob.listOrgs();
+
+      expect(sent).toEqual(['blacksmith_session=alice-cookie', 'blacksmith_session=bob-cookie']);
+      expect(bobOrgs.installations[0]?.login).toBe('blacksmith_session=bob-cookie');
+      expect(alice.getResponseCacheStats()?.entries).toBe(1);
+      expect(bob.getResponseCacheStats()?.entries).toBe(1);
+      expect(alice.history).toBeNull();
+      expect(bob.history).toBeNull();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
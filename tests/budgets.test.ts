@@ -0,0 +1,98 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { evaluateBudget, loadBudgetsFromEnv, matchesRepository, type Budget } from '../src/utils/budgets.js';
+import { ConfigurationError } from '../src/utils/errors.js';
+
+describe('loadBudgetsFromEnv', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'blacksmith-budgets-'));
+    path = join(dir, 'budgets.json');
+    process.env['BLACKSMITH_BUDGETS_FILE'] = path;
+  });
+
+  afterEach(() => {
+    delete process.env['BLACKSMITH_BUDGETS_FILE'];
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('returns null without a budget file', () => {
+    expect(loadBudgetsFromEnv()).toBeNull();
+  });
+
+  it('applies the file-wide warning threshold unless a budget sets its own', () => {
+    writeFileSync(
+      path,
+      JSON.stringify({
+        warn_at_percent: 70,
+        budgets: [
+          { org: 'acme', monthly_usd: 500 },
+          { org: 'acme', repository: 'acme/web', monthly_usd: 150, warn_at_percent: 90 },
+        ],
+      })
+    );
+
+    expect(loadBudgetsFromEnv()).toEqual({
+      path,
+      budgets: [
+        { org: 'acme', repository: null, monthlyUsd: 500, warnAtPercent: 70 },
+        { org: 'acme', repository: 'acme/web', monthlyUsd: 150, warnAtPercent: 90 },
+      ],
+    });
+  });
+
+  it('defaults the warning threshold to 80%', () => {
+    writeFileSync(path, JSON.stringify({ budgets: [{ org: 'acme', monthly_usd: 500 }] }));
+
+    expect(loadBudgetsFromEnv()?.budgets[0]?.warnAtPercent).toBe(80);
+  });
+
+  it('rejects invalid files', () => {
+    writeFileSync(path, JSON.stringify({ budgets: [{ org: 'acme', monthly_usd: -5 }] }));
+    expect(() => loadBudgetsFromEnv()).toThrow(ConfigurationError);
+
+    writeFileSync(path, '{ not json');
+    expect(() => loadBudgetsFromEnv()).toThrow(ConfigurationError);
+  });
+});
+
+describe('evaluateBudget', () => {
+  const budget: Budget = { org: 'acme', repository: null, monthlyUsd: 100, warnAtPercent: 80 };
+
+  it('is ok below the threshold and forecast', () => {
+    expect(evaluateBudget(budget, 50, 90, 'invoice')).toEqual({ status: 'ok', alert: null });
+  });
+
+  it('warns past the threshold', () => {
+    const { status, alert } = evaluateBudget(budget, 80, 95, 'invoice');
+
+    expect(status).toBe('warning');
+    expect(alert).toMatchObject({ kind: 'threshold', message: 'acme has used 80% of its $100.00 cap.' });
+  });
+
+  it('warns when the forecast reaches the cap', () => {
+    expect(evaluateBudget(budget, 50, 100, 'invoice')).toMatchObject({ status: 'warning', alert: { kind: 'forecast' } });
+  });
+
+  it('breaches once actual spend reaches the cap', () => {
+    expect(evaluateBudget(budget, 100, 100, 'invoice')).toMatchObject({ status: 'breach', alert: { kind: 'actual' } });
+  });
+
+  it('says when repository spend is estimated at list price', () => {
+    const { alert } = evaluateBudget({ ...budget, repository: 'acme/web' }, 120, 150, 'list_price');
+
+    expect(alert?.message).toBe('acme/web (acme) has spent $120.00 at list price, over its $100.00 monthly cap.');
+  });
+});
+
+describe('matchesRepository', () => {
+  it('matches full or short names case-insensitively', () => {
+    expect(matchesRepository('Acme/Web', 'acme/web')).toBe(true);
+    expect(matchesRepository('acme/web', 'WEB')).toBe(true);
+    expect(matchesRepository('acme/webapp', 'web')).toBe(false);
+  });
+});
@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ResponseCache } from '../src/utils/cache.js';
+
+const BASE = 'https://app.blacksmith.sh/api/orgs/acme';
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+const finishedRun = JSON.stringify({ jobs: [{ status: 'completed', conclusion: 'success' }] });
+const rerunningRun = JSON.stringify({
+  jobs: [
+    { status: 'completed', conclusion: 'failure' },
+    { status: 'in_progress', conclusion: null },
+  ],
+});
+
+describe('ResponseCache TTL rules', () => {
+  let cache: ResponseCache;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    cache = new ResponseCache(1024 * 1024);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /**
+   * Whether a response cached now is still served after `ms`.
+   */
+  function cachedAfter(key: string, text: string, ms: number): boolean {
+    cache.set(key, text);
+    vi.advanceTimersByTime(ms);
+    return cache.get(key) !== undefined;
+  }
+
+  it('expires live data within seconds', () => {
+    expect(cachedAfter(`${BASE}/metrics/core-usage/current`, '{}', 5 * SECOND)).toBe(true);
+    expect(cachedAfter(`${BASE}/metrics/core-usage/current`, '{}', 11 * SECOND)).toBe(false);
+  });
+
+  it('keeps a finished run for minutes but not forever', () => {
+    const key = `${BASE}/workflows/runs/1`;
+
+    expect(cachedAfter(key, finishedRun, 9 * MINUTE)).toBe(true);
+    expect(cachedAfter(key, finishedRun, 11 * MINUTE)).toBe(false);
+  });
+
+  it('keeps an unfinished run only briefly', () => {
+    expect(cachedAfter(`${BASE}/workflows/runs/1`, rerunningRun, 16 * SECOND)).toBe(false);
+  });
+
+  it('keeps test results longer only while their run is known to be finished', () => {
+    const testsKey = `${BASE}/workflows/runs/1/tests`;
+
+    expect(cachedAfter(testsKey, '[]', 16 * SECOND)).toBe(false);
+
+    cache.set(`${BASE}/workflows/runs/1`, finishedRun);
+    expect(cachedAfter(testsKey, '[]', 5 * MINUTE)).toBe(true);
+
+    // A re-run makes the run unfinished again
+    cache.set(`${BASE}/workflows/runs/1`, rerunningRun);
+    expect(cachedAfter(testsKey, '[]', 16 * SECOND)).toBe(false);
+  });
+
+  it('keeps a finished job, since re-runs create new job IDs', () => {
+    const key = `${BASE}/workflows/runs/1/jobs/2`;
+
+    expect(cachedAfter(key, JSON.stringify({ job: { conclusion: 'success' } }), 24 * 60 * MINUTE)).toBe(true);
+    expect(cachedAfter(key, JSON.stringify({ job: { conclusion: null } }), 16 * SECOND)).toBe(false);
+  });
+
+  it('briefly caches unparseable run responses', () => {
+    expect(cachedAfter(`${BASE}/workflows/runs/1`, 'not json', 16 * SECOND)).toBe(false);
+  });
+
+  it('caches other endpoints for five minutes', () => {
+    expect(cachedAfter(`${BASE}/settings`, '{}', 4 * MINUTE)).toBe(true);
+    expect(cachedAfter(`${BASE}/settings`, '{}', 6 * MINUTE)).toBe(false);
+  });
+
+  it('evicts the least recently used entries to stay within its size', () => {
+    const small = new ResponseCache(10);
+    small.set(`${BASE}/a`, '1234');
+    small.set(`${BASE}/b`, '1234');
+    small.get(`${BASE}/a`);
+    small.set(`${BASE}/c`, '1234');
+
+    expect(small.get(`${BASE}/a`)).toBe('1234');
+    expect(small.get(`${BASE}/b`)).toBeUndefined();
+    expect(small.stats()).toMatchObject({ entries: 2, size_bytes: 8 });
+  });
+});
@@ -0,0 +1,123 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { BlacksmithClient, createClientFromEnv } from '../src/client.js';
+import { CancelledError, SessionExpiredError } from '../src/utils/errors.js';
+
+const { getSessionCookie } = vi.hoisted(() => ({ getSessionCookie: vi.fn<() => Promise<string | null>>() }));
+vi.mock('../src/utils/cookies.js', () => ({ getSessionCookie }));
+
+const ORGS = { installations: [{ login: 'acme' }] };
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+  getSessionCookie.mockReset();
+});
+
+/**
+ * Stub fetch to accept only the given session cookies, recording the cookie each request sent.
+ */
+function acceptCookies(...valid: string[]): string[] {
+  const sent: string[] = [];
+  vi.stubGlobal('fetch', async (_url: string, init: RequestInit) => {
+    const cookie = (init.headers as Record<string, string>)['Cookie']?.replace('blacksmith_session=', '') ?? '';
+    sent.push(cookie);
+    return valid.includes(cookie) ? Response.json(ORGS) : new Response('Unauthorized', { status: 401 });
+  });
+  return sent;
+}
+
+describe('request cancellation', () => {
+  it('cancels a request whose body is still streaming', async () => {
+    vi.stubGlobal('fetch', async (_url: string, init: RequestInit) => {
+      // Like fetch, error the body stream when the request's signal aborts
+      const body = new ReadableStream({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode('{"installations":'));
+          init.signal?.addEventListener('abort', () => controller.error(new DOMException('aborted', 'AbortError')));
+        },
+      });
+      return new Response(body, { status: 200 });
+    });
+    const controller = new AbortController();
+    const client = new BlacksmithClient({ sessionCookie: 'cookie' }).withSignal(controller.signal);
+
+    const request = client.listOrgs();
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(request).rejects.toBeInstanceOf(CancelledError);
+  });
+
+  it('cancels a request before it is sent', async () => {
+    const fetch = vi.fn(async () => Response.json(ORGS));
+    vi.stubGlobal('fetch', async (_url: string, init: RequestInit) => {
+      init.signal?.throwIfAborted();
+      return fetch();
+    });
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(new BlacksmithClient({ sessionCookie: 'cookie' }).withSignal(controller.signal).listOrgs())
+      .rejects.toBeInstanceOf(CancelledError);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
+
+describe('session refresh', () => {
+  it('retries once with a fresh cookie after a 401', async () => {
+    const sent = acceptCookies('fresh');
+    const refresh = vi.fn(async () => 'fresh');
+    const client = new BlacksmithClient({ sessionCookie: 'stale', refreshSessionCookie: refresh });
+
+    await expect(client.listOrgs()).resolves.toEqual(ORGS);
+    expect(sent).toEqual(['stale', 'fresh']);
+    expect(refresh).toHaveBeenCalledTimes(1);
+  });
+
+  it('refreshes at most once per request', async () => {
+    const sent = acceptCookies();
+    const refresh = vi.fn(async () => 'also-rejected');
+    const client = new BlacksmithClient({ sessionCookie: 'stale', refreshSessionCookie: refresh });
+
+    await expect(client.listOrgs()).rejects.toBeInstanceOf(SessionExpiredError);
+    expect(sent).toEqual(['stale', 'also-rejected']);
+    expect(refresh).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up without retrying when no new cookie is found', async () => {
+    const sent = acceptCookies();
+    const client = new BlacksmithClient({ sessionCookie: 'stale', refreshSessionCookie: async () => 'stale' });
+
+    await expect(client.listOrgs()).rejects.toBeInstanceOf(SessionExpiredError);
+    expect(sent).toEqual(['stale']);
+  });
+
+  it('shares a refreshed cookie, and one lookup, across copies of the client', async () => {
+    const sent = acceptCookies('fresh');
+    const refresh = vi.fn(async () => 'fresh');
+    const client = new BlacksmithClient({ sessionCookie: 'stale', refreshSessionCookie: refresh });
+    const copies = [client.withOrg('acme'), client.withSignal(new AbortController().signal)];
+
+    await Promise.all(copies.map((copy) => copy.listOrgs()));
+    await client.listOrgs();
+
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(sent.slice(-1)).toEqual(['fresh']);
+  });
+
+  it('refreshes from the browser only when the cookie came from it', async () => {
+    vi.stubEnv('BLACKSMITH_CACHE', '0');
+    vi.stubEnv('BLACKSMITH_SESSION_COOKIE', '');
+    getSessionCookie.mockResolvedValueOnce('browser-stale').mockResolvedValueOnce('browser-fresh');
+
+    acceptCookies('browser-fresh');
+    await expect((await createClientFromEnv()).listOrgs()).resolves.toEqual(ORGS);
+    expect(getSessionCookie).toHaveBeenCalledTimes(2);
+
+    getSessionCookie.mockReset();
+    vi.stubEnv('BLACKSMITH_SESSION_COOKIE', 'env-stale');
+    const sent = acceptCookies('browser-fresh');
+    await expect((await createClientFromEnv()).listOrgs()).rejects.toBeInstanceOf(SessionExpiredError);
+    expect(getSessionCookie).not.toHaveBeenCalled();
+    expect(sent).toEqual(['env-stale']);
+  });
+});
@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { collectSettled, getConcurrencyLimit, mapWithConcurrency } from '../src/utils/concurrency.js';
+import { CancelledError } from '../src/utils/errors.js';
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('mapWithConcurrency', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('keeps at most the limit in flight', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    await mapWithConcurrency(
+      [1, 2, 3, 4, 5, 6, 7],
+      async () => {
+        maxInFlight = Math.max(maxInFlight, ++inFlight);
+        await delay(5);
+        inFlight--;
+      },
+      { concurrency: 3 }
+    );
+
+    expect(maxInFlight).toBe(3);
+  });
+
+  it('returns results in input order, whatever order they settle in', async () => {
+    const results = await mapWithConcurrency([30, 10, 20], async (ms, i) => {
+      await delay(ms);
+      if (i === 1) throw new Error('second failed');
+      return ms;
+    });
+
+    expect(results.map((r) => r.status)).toEqual(['fulfilled', 'rejected', 'fulfilled']);
+    expect(results[0]).toEqual({ status: 'fulfilled', value: 30 });
+    expect(results[2]).toEqual({ status: 'fulfilled', value: 20 });
+  });
+
+  it('reports progress as items settle', async () => {
+    const progress: [number, number][] = [];
+
+    await mapWithConcurrency([1, 2, 3], async (n) => n, { onProgress: (done, total) => progress.push([done, total]) });
+
+    expect(progress).toEqual([[1, 3], [2, 3], [3, 3]]);
+  });
+
+  it('stops starting items once aborted', async () => {
+    const controller = new AbortController();
+    const started: number[] = [];
+
+    const results = await mapWithConcurrency(
+      [1, 2, 3, 4],
+      async (n) => {
+        started.push(n);
+        if (n === 2) controller.abort();
+        return n;
+      },
+      { concurrency: 1, signal: controller.signal }
+    );
+
+    expect(started).toEqual([1, 2]);
+    expect(results.slice(2).every((r) => r.status === 'rejected' && r.reason instanceof CancelledError)).toBe(true);
+  });
+
+  it('reads the default limit from BLACKSMITH_CONCURRENCY', () => {
+    vi.stubEnv('BLACKSMITH_CONCURRENCY', '12');
+    expect(getConcurrencyLimit()).toBe(12);
+
+    vi.stubEnv('BLACKSMITH_CONCURRENCY', '0');
+    expect(getConcurrencyLimit()).toBe(5);
+  });
+});
+
+describe('collectSettled', () => {
+  const ok = <T>(value: T): PromiseSettledResult<T> => ({ status: 'fulfilled', value });
+  const failed = (reason: unknown): PromiseSettledResult<never> => ({ status: 'rejected', reason });
+
+  it('keeps partial results alongside the errors', () => {
+    const error = new Error('boom');
+
+    expect(collectSettled([ok(1), failed(error), ok(3)])).toEqual({ values: [1, 3], errors: [error], cancelled: false });
+  });
+
+  it('reports cancellation apart from errors', () => {
+    expect(collectSettled([ok(1), failed(new CancelledError())])).toEqual({ values: [1], errors: [], cancelled: true });
+  });
+
+  it('throws the first error when every item failed', () => {
+    const first = new Error('first');
+
+    expect(() => collectSettled([failed(first), failed(new Error('second'))])).toThrow(first);
+  });
+
+  it('returns nothing for no items or only cancelled ones', () => {
+    expect(collectSettled([])).toEqual({ values: [], errors: [], cancelled: false });
+    expect(collectSettled([failed(new CancelledError())])).toEqual({ values: [], errors: [], cancelled: true });
+  });
+});
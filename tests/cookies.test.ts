@@ -0,0 +1,273 @@
+import { createCipheriv, createHash, pbkdf2Sync } from 'crypto';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import Database from 'better-sqlite3';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  decryptCookieValue,
+  findSessionCookie,
+  getLinuxCookieKeys,
+  pickSessionCookie,
+  readBlacksmithCookie,
+  readChromiumCookies,
+  readFirefoxCookies,
+  type SessionCookie,
+} from '../src/utils/cookies.js';
+
+const KEYRING_PASSWORD = 'keyring-secret';
+const SESSION = 'eyJpdiI6IlRlc3QiLCJ2YWx1ZSI6InNlc3Npb24ifQ==';
+
+/**
+ * Encrypt a value the way Chrome does on Linux.
+ */
+function encrypt(version: 'v10' | 'v11', password: string, value: string, hostKey?: string): Buffer {
+  const key = pbkdf2Sync(password, 'saltysalt', 1, 16, 'sha1');
+  const cipher = createCipheriv('aes-128-cbc', key, Buffer.alloc(16, ' '));
+  // Chrome 130+ prepends SHA-256(host_key) to the plaintext
+  const plaintext = hostKey
+    ? Buffer.concat([createHash('sha256').update(hostKey).digest(), Buffer.from(value)])
+    : Buffer.from(value);
+  return Buffer.concat([Buffer.from(version), cipher.update(plaintext), cipher.final()]);
+}
+
+interface FixtureCookie {
+  name: string;
+  host_key?: string;
+  value?: string;
+  encrypted_value?: Buffer;
+  expires_utc?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Convert Unix milliseconds to Chromium's expires_utc (microseconds since 1601).
+ */
+function toChromiumTime(unixMs: number): number {
+  return (unixMs + 11_644_473_600_000) * 1000;
+}
+
+describe('Linux Chrome cookie decryption', () => {
+  let dir: string;
+  let dbPath: string;
+
+  /**
+   * Write a Cookies database with Chrome's schema.
+   */
+  function writeCookies(cookies: FixtureCookie[]): void {
+    const db = new Database(dbPath);
+    db.exec(`
+      CREATE TABLE meta (key LONGVARCHAR NOT NULL UNIQUE PRIMARY KEY, value LONGVARCHAR);
+      INSERT INTO meta VALUES ('version', '24');
+      CREATE TABLE cookies (
+        creation_utc INTEGER NOT NULL, host_key TEXT NOT NULL, top_frame_site_key TEXT NOT NULL,
+        name TEXT NOT NULL, value TEXT NOT NULL, encrypted_value BLOB NOT NULL, path TEXT NOT NULL,
+        expires_utc INTEGER NOT NULL, is_secure INTEGER NOT NULL, is_httponly INTEGER NOT NULL,
+        last_access_utc INTEGER NOT NULL
+      );
+    `);
+    const insert = db.prepare(`
+      INSERT INTO cookies VALUES (0, @host_key, '', @name, @value, @encrypted_value, '/', @expires_utc, 1, 1, 0)
+    `);
+    for (const cookie of cookies) {
+      insert.run({
+        host_key: cookie.host_key ?? '.blacksmith.sh',
+        name: cookie.name,
+        value: cookie.value ?? '',
+        encrypted_value: cookie.encrypted_value ?? Buffer.alloc(0),
+        expires_utc: cookie.expires_utc ?? 0,
+      });
+    }
+    db.close();
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'blacksmith-cookies-'));
+    dbPath = join(dir, 'Cookies');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('decrypts v10 cookies with the peanuts key', () => {
+    writeCookies([
+      { name: 'blacksmith_session', encrypted_value: encrypt('v10', 'peanuts', SESSION) },
+    ]);
+
+    expect(readBlacksmithCookie(dbPath, getLinuxCookieKeys(null))).toBe(SESSION);
+  });
+
+  it('decrypts v11 cookies with the keyring password', () => {
+    writeCookies([
+      { name: 'blacksmith_session', encrypted_value: encrypt('v11', KEYRING_PASSWORD, SESSION) },
+    ]);
+
+    expect(readBlacksmithCookie(dbPath, getLinuxCookieKeys(KEYRING_PASSWORD))).toBe(SESSION);
+  });
+
+  it('falls back to the empty password for v11 cookies without a keyring', () => {
+    writeCookies([
+      { name: 'blacksmith_session', encrypted_value: encrypt('v11', '', SESSION) },
+    ]);
+
+    expect(readBlacksmithCookie(dbPath, getLinuxCookieKeys(null))).toBe(SESSION);
+    expect(readBlacksmithCookie(dbPath, getLinuxCookieKeys(KEYRING_PASSWORD))).toBe(SESSION);
+  });
+
+  it('strips the host key hash prefix added by newer Chrome versions', () => {
+    writeCookies([
+      {
+        name: 'blacksmith_session',
+        encrypted_value: encrypt('v11', KEYRING_PASSWORD, SESSION, '.blacksmith.sh'),
+      },
+    ]);
+
+    expect(readBlacksmithCookie(dbPath, getLinuxCookieKeys(KEYRING_PASSWORD))).toBe(SESSION);
+  });
+
+  it('prefers the session cookie over other Blacksmith cookies', () => {
+    writeCookies([
+      { name: 'XSRF-TOKEN', encrypted_value: encrypt('v10', 'peanuts', 'xsrf-value') },
+      { name: 'blacksmith_session', encrypted_value: encrypt('v10', 'peanuts', SESSION) },
+      { name: 'blacksmith_session', host_key: '.example.com', value: 'not-blacksmith' },
+    ]);
+
+    expect(readBlacksmithCookie(dbPath, getLinuxCookieKeys(null))).toBe(SESSION);
+  });
+
+  it('uses plaintext values when present', () => {
+    writeCookies([{ name: 'blacksmith_session', value: SESSION }]);
+
+    expect(readBlacksmithCookie(dbPath, null)).toBe(SESSION);
+  });
+
+  it('returns null when no key decrypts the cookie', () => {
+    const encrypted = encrypt('v11', KEYRING_PASSWORD, SESSION);
+
+    expect(decryptCookieValue(encrypted, { v10: [], v11: [] })).toBeNull();
+  });
+});
+
+describe('cookie sources', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'blacksmith-cookies-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads unencrypted Firefox cookies', () => {
+    const path = join(dir, 'cookies.sqlite');
+    const expiry = Math.floor((Date.now() + DAY_MS) / 1000);
+    const db = new Database(path);
+    db.exec(`
+      CREATE TABLE moz_cookies (
+        id INTEGER PRIMARY KEY, originAttributes TEXT NOT NULL DEFAULT '', name TEXT, value TEXT,
+        host TEXT, path TEXT, expiry INTEGER, lastAccessed INTEGER, creationTime INTEGER,
+        isSecure INTEGER, isHttpOnly INTEGER
+      );
+    `);
+    db.prepare('INSERT INTO moz_cookies (name, value, host, path, expiry) VALUES (?, ?, ?, ?, ?)')
+      .run('blacksmith_session', SESSION, 'app.blacksmith.sh', '/', expiry);
+    db.prepare('INSERT INTO moz_cookies (name, value, host, path, expiry) VALUES (?, ?, ?, ?, ?)')
+      .run('session', 'other-site', 'example.com', '/', expiry);
+    db.close();
+
+    expect(readFirefoxCookies(path)).toEqual([
+      { name: 'blacksmith_session', value: SESSION, expiresAt: expiry * 1000, encrypted: false },
+    ]);
+  });
+
+  it('reads a database the browser has locked, including writes still in its WAL', () => {
+    const path = join(dir, 'cookies.sqlite');
+    const browser = new Database(path);
+    browser.pragma('journal_mode = WAL');
+    browser.pragma('wal_autocheckpoint = 0');
+    browser.pragma('locking_mode = EXCLUSIVE');
+    browser.exec('CREATE TABLE moz_cookies (name TEXT, value TEXT, host TEXT, expiry INTEGER)');
+    browser.prepare('INSERT INTO moz_cookies VALUES (?, ?, ?, ?)').run('blacksmith_session', SESSION, 'app.blacksmith.sh', 0);
+
+    try {
+      expect(readFirefoxCookies(path).map((c) => c.value)).toEqual([SESSION]);
+    } finally {
+      browser.close();
+    }
+  });
+
+  it('converts Chromium expires_utc to Unix time', () => {
+    const path = join(dir, 'Cookies');
+    const expiresAt = Date.now() + DAY_MS;
+    const db = new Database(path);
+    db.exec(`
+      CREATE TABLE cookies (
+        host_key TEXT, name TEXT, value TEXT, encrypted_value BLOB, path TEXT,
+        expires_utc INTEGER, is_secure INTEGER, is_httponly INTEGER
+      );
+    `);
+    db.prepare('INSERT INTO cookies VALUES (?, ?, ?, ?, ?, ?, 1, 1)')
+      .run('.blacksmith.sh', 'blacksmith_session', '', encrypt('v10', 'peanuts', SESSION), '/', toChromiumTime(expiresAt));
+    db.close();
+
+    const [cookie] = readChromiumCookies(path, getLinuxCookieKeys(null));
+    expect(cookie?.value).toBe(SESSION);
+    expect(cookie?.encrypted).toBe(true);
+    expect(cookie?.expiresAt).toBe(expiresAt);
+  });
+
+  it('picks the newest unexpired session cookie', () => {
+    const now = Date.now();
+    const cookie = (value: string, expiresAt: number | null, name = 'blacksmith_session'): SessionCookie => ({
+      name,
+      value,
+      expiresAt,
+      encrypted: false,
+    });
+
+    const picked = pickSessionCookie(
+      [
+        cookie('expired', now - DAY_MS),
+        cookie('older', now + DAY_MS),
+        cookie('newest', now + 7 * DAY_MS),
+        cookie('session-only', null),
+        cookie('xsrf', now + 30 * DAY_MS, 'XSRF-TOKEN'),
+      ],
+      now
+    );
+
+    expect(picked?.value).toBe('newest');
+    expect(pickSessionCookie([cookie('expired', now - 1)], now)).toBeNull();
+  });
+
+  it('combines cookies across sources and skips unreadable ones', () => {
+    const now = Date.now();
+    const picked = findSessionCookie([
+      {
+        browser: 'chrome',
+        profile: 'Default',
+        path: join(dir, 'chrome'),
+        readCookies: () => [{ name: 'blacksmith_session', value: 'chrome', expiresAt: now + DAY_MS, encrypted: true }],
+      },
+      {
+        browser: 'brave',
+        profile: 'Profile 1',
+        path: join(dir, 'brave'),
+        readCookies: () => {
+          throw new Error('database is locked');
+        },
+      },
+      {
+        browser: 'firefox',
+        profile: 'abc.default-release',
+        path: join(dir, 'firefox'),
+        readCookies: () => [{ name: 'blacksmith_session', value: 'firefox', expiresAt: now + 2 * DAY_MS, encrypted: false }],
+      },
+    ]);
+
+    expect(picked).toMatchObject({ value: 'firefox', browser: 'firefox', profile: 'abc.default-release' });
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { scoreFlakiness, type TestAttemptResult } from '../src/utils/flakiness.js';
+
+/**
+ * Build a result with defaults for the fields a test doesn't care about.
+ */
+function result(overrides: Partial<TestAttemptResult> & Pick<TestAttemptResult, 'run_id' | 'status'>): TestAttemptResult {
+  return { job_name: 'Test', sha: null, attempt: 1, ...overrides };
+}
+
+describe('scoreFlakiness', () => {
+  it('counts a pass on retry of the same run as a retry flip', () => {
+    const evidence = scoreFlakiness([
+      result({ run_id: '1', sha: 'abc', attempt: 1, status: 'fail' }),
+      result({ run_id: '1', sha: 'abc', attempt: 2, status: 'pass' }),
+    ]);
+
+    expect(evidence).toEqual({
+      classification: 'flaky',
+      confidence: 0.5,
+      retry_flips: 1,
+      mixed_shas: 0,
+      fail_only_shas: 0,
+      shas_seen: 1,
+    });
+  });
+
+  it('does not count a later attempt of another job as a retry flip', () => {
+    const evidence = scoreFlakiness([
+      result({ run_id: '1', sha: 'abc', job_name: 'Test (shard 1)', attempt: 1, status: 'fail' }),
+      result({ run_id: '1', sha: 'abc', job_name: 'Test (shard 2)', attempt: 2, status: 'pass' }),
+    ]);
+
+    expect(evidence.retry_flips).toBe(0);
+    expect(evidence.mixed_shas).toBe(1);
+    expect(evidence.classification).toBe('flaky');
+  });
+
+  it('classifies failures on one block of consecutive commits as a likely regression', () => {
+    const evidence = scoreFlakiness([
+      result({ run_id: '1', sha: 'a', status: 'pass', date: '2026-10-01' }),
+      result({ run_id: '2', sha: 'b', status: 'fail', date: '2026-10-02' }),
+      result({ run_id: '3', sha: 'c', status: 'fail', date: '2026-10-03' }),
+      result({ run_id: '4', sha: 'd', status: 'pass', date: '2026-10-04' }),
+    ]);
+
+    expect(evidence.classification).toBe('likely_regression');
+    expect(evidence.fail_only_shas).toBe(2);
+    expect(evidence.confidence).toBe(0.19);
+  });
+
+  it('treats failures on scattered commits as possibly flaky', () => {
+    const evidence = scoreFlakiness([
+      result({ run_id: '1', sha: 'a', status: 'fail', date: '2026-10-01' }),
+      result({ run_id: '2', sha: 'b', status: 'pass', date: '2026-10-02' }),
+      result({ run_id: '3', sha: 'c', status: 'fail', date: '2026-10-03' }),
+    ]);
+
+    expect(evidence.classification).toBe('possibly_flaky');
+  });
+
+  it('groups results without a SHA by run and ignores skips', () => {
+    const evidence = scoreFlakiness([
+      result({ run_id: '1', status: 'fail' }),
+      result({ run_id: '2', status: 'pass' }),
+      result({ run_id: '3', status: 'skip' }),
+    ]);
+
+    expect(evidence.shas_seen).toBe(2);
+    expect(evidence.mixed_shas).toBe(0);
+  });
+});
@@ -0,0 +1,117 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { BlacksmithClient } from '../src/client.js';
+import { syncHistory } from '../src/tools/history.js';
+import { HistoryStore } from '../src/utils/history.js';
+
+describe('HistoryStore sync coverage', () => {
+  let dir: string;
+  let store: HistoryStore;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'blacksmith-history-'));
+    store = new HistoryStore(join(dir, 'history.db'));
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    store.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Record a backfill of [startDate, endDate] as if it finished at `syncedAt`.
+   */
+  function sync(startDate: string, endDate: string, syncedAt: string): void {
+    vi.setSystemTime(new Date(syncedAt));
+    store.markSynced('acme', startDate, endDate);
+  }
+
+  it('covers nothing before a sync', () => {
+    expect(store.getSyncedThrough('acme', '2026-10-01T00:00:00Z', '2026-10-05T00:00:00Z')).toBeNull();
+  });
+
+  it('covers a range inside a finished backfill', () => {
+    sync('2026-09-01', '2026-09-30', '2026-10-01T08:00:00Z');
+
+    expect(store.getSyncedThrough('acme', '2026-09-10T12:00:00Z', '2026-09-20T12:00:00Z')).toBe('2026-09-20T12:00:00.000Z');
+  });
+
+  it('only covers a range up to when it was synced', () => {
+    sync('2026-10-01', '2026-10-19', '2026-10-19T08:00:00Z');
+
+    expect(store.getSyncedThrough('acme', '2026-10-05T00:00:00Z', '2026-10-19T20:00:00Z')).toBe('2026-10-19T08:00:00.000Z');
+  });
+
+  it('joins adjacent backfills and stops at a gap', () => {
+    sync('2026-09-01', '2026-09-10', '2026-10-01T00:00:00Z');
+    sync('2026-09-11', '2026-09-20', '2026-10-01T00:00:00Z');
+    sync('2026-09-25', '2026-09-30', '2026-10-01T00:00:00Z');
+
+    expect(store.getSyncedThrough('acme', '2026-09-05T00:00:00Z', '2026-09-28T00:00:00Z')).toBe('2026-09-21T00:00:00.000Z');
+  });
+
+  it('does not cover a range starting before the first backfill or in another org', () => {
+    sync('2026-09-10', '2026-09-30', '2026-10-01T00:00:00Z');
+
+    expect(store.getSyncedThrough('acme', '2026-09-01T00:00:00Z', '2026-09-20T00:00:00Z')).toBeNull();
+    expect(store.getSyncedThrough('other', '2026-09-15T00:00:00Z', '2026-09-20T00:00:00Z')).toBeNull();
+  });
+});
+
+describe('syncHistory', () => {
+  let dir: string;
+  let store: HistoryStore;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'blacksmith-history-'));
+    store = new HistoryStore(join(dir, 'history.db'));
+  });
+
+  afterEach(() => {
+    store.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Stub the client calls a backfill makes, listing one run per day with the given status.
+   */
+  function clientWithRuns(statusByDate: Record<string, string>): BlacksmithClient {
+    return {
+      history: store,
+      getOrg: () => 'acme',
+      listRuns: async ({ startDate }: { startDate: string }) =>
+        statusByDate[startDate] ? [{ id: startDate, status: statusByDate[startDate] }] : [],
+      getRun: async () => ({}),
+      getRunTests: async () => ({}),
+    } as unknown as BlacksmithClient;
+  }
+
+  it('marks a fully finished range as synced', async () => {
+    const client = clientWithRuns({ '2026-09-01': 'completed', '2026-09-02': 'completed' });
+
+    await syncHistory(client, { start_date: '2026-09-01', end_date: '2026-09-03' });
+
+    expect(store.getSyncedThrough('acme', '2026-09-01T00:00:00Z', '2026-09-03T12:00:00Z')).toBe('2026-09-03T12:00:00.000Z');
+  });
+
+  it('leaves days from the oldest unfinished run onward unsynced', async () => {
+    const client = clientWithRuns({ '2026-09-01': 'completed', '2026-09-02': 'in_progress', '2026-09-03': 'queued' });
+
+    const result = await syncHistory(client, { start_date: '2026-09-01', end_date: '2026-09-03' });
+
+    expect(result).toMatchObject({ sync: { runs_synced: 1, runs_in_progress: 2 } });
+    expect(store.getSyncedThrough('acme', '2026-09-01T00:00:00Z', '2026-09-03T12:00:00Z')).toBe('2026-09-02T00:00:00.000Z');
+  });
+
+  it('rejects malformed and reversed dates', async () => {
+    const client = clientWithRuns({});
+
+    expect(await syncHistory(client, { start_date: '2026-9-1', end_date: '2026-09-03' })).toHaveProperty('error');
+    expect(await syncHistory(client, { start_date: '2026-02-30', end_date: '2026-03-03' })).toHaveProperty('error');
+    expect(await syncHistory(client, { start_date: '2026-09-03', end_date: '2026-09-01' })).toHaveProperty('error');
+  });
+});
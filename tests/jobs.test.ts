@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { describeJobPattern, parseJobPattern } from '../src/utils/jobs.js';
+
+describe('parseJobPattern', () => {
+  it('matches every job without a pattern', () => {
+    const matcher = parseJobPattern(undefined);
+
+    expect(matcher?.matches('anything')).toBe(true);
+    expect(matcher?.exact).toBeNull();
+  });
+
+  it('matches exact names case-sensitively', () => {
+    const matcher = parseJobPattern('Test');
+
+    expect(matcher?.exact).toBe('Test');
+    expect(matcher?.matches('Test')).toBe(true);
+    expect(matcher?.matches('test')).toBe(false);
+    expect(matcher?.matches('Test (shard 1)')).toBe(false);
+  });
+
+  it('matches globs case-insensitively with literal special characters', () => {
+    const matcher = parseJobPattern('Test (shard *)');
+
+    expect(matcher?.exact).toBeNull();
+    expect(matcher?.matches('Test (shard 1/4)')).toBe(true);
+    expect(matcher?.matches('test (SHARD 2/4)')).toBe(true);
+    expect(matcher?.matches('Test shard 1')).toBe(false);
+    expect(matcher?.matches('Lint')).toBe(false);
+  });
+
+  it('matches regexes between slashes with flags', () => {
+    const matcher = parseJobPattern('/^test \\(shard \\d+\\/4\\)$/i');
+
+    expect(matcher?.matches('Test (shard 3/4)')).toBe(true);
+    expect(matcher?.matches('Test (shard 3/8)')).toBe(false);
+  });
+
+  it('matches repeatedly with global and sticky flags', () => {
+    const matcher = parseJobPattern('/test/giy');
+
+    expect(matcher?.matches('Test')).toBe(true);
+    expect(matcher?.matches('Test')).toBe(true);
+    expect(matcher?.matches('Unit test')).toBe(true);
+  });
+
+  it('returns null for a regex that does not compile', () => {
+    expect(parseJobPattern('/(unclosed/')).toBeNull();
+  });
+});
+
+describe('describeJobPattern', () => {
+  const describePattern = (pattern: string | undefined) => {
+    const matcher = parseJobPattern(pattern);
+    if (!matcher) throw new Error(`Invalid pattern: ${pattern}`);
+    return describeJobPattern(matcher);
+  };
+
+  it('describes each kind of pattern', () => {
+    expect(describePattern(undefined)).toBe('any job with test results');
+    expect(describePattern('Test')).toBe('job "Test"');
+    expect(describePattern('Test*')).toBe('jobs matching "Test*"');
+  });
+});
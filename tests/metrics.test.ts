@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getRunnerSpec,
+  parseRunnerLabel,
+  pickRunnerSize,
+  resizeRunnerLabel,
+  type RunnerSpec,
+} from '../src/utils/metrics.js';
+
+/**
+ * Parse a label the test knows is valid.
+ */
+function spec(label: string): RunnerSpec {
+  const parsed = parseRunnerLabel(label);
+  if (!parsed) throw new Error(`Not a runner label: ${label}`);
+  return parsed;
+}
+
+describe('runner labels', () => {
+  it('parses vCPUs, memory and architecture', () => {
+    expect(parseRunnerLabel('blacksmith-4vcpu-ubuntu-2204')).toEqual({
+      label: 'blacksmith-4vcpu-ubuntu-2204',
+      vcpus: 4,
+      memory_gb: 16,
+      arch: 'x64',
+    });
+    expect(parseRunnerLabel('blacksmith-8vcpu-ubuntu-2404-arm')).toMatchObject({ vcpus: 8, arch: 'arm64' });
+  });
+
+  it('ignores labels that are not Blacksmith runners', () => {
+    expect(parseRunnerLabel('ubuntu-latest')).toBeNull();
+    expect(parseRunnerLabel('my-blacksmith-4vcpu-ubuntu-2204')).toBeNull();
+    expect(getRunnerSpec(['self-hosted', 'blacksmith-2vcpu-ubuntu-2204'])?.vcpus).toBe(2);
+    expect(getRunnerSpec(undefined)).toBeNull();
+  });
+
+  it('resizes a label keeping its image and architecture', () => {
+    expect(resizeRunnerLabel('blacksmith-16vcpu-ubuntu-2404-arm', 4)).toBe('blacksmith-4vcpu-ubuntu-2404-arm');
+  });
+});
+
+describe('pickRunnerSize', () => {
+  const current = spec('blacksmith-8vcpu-ubuntu-2204');
+  const idle = { vcpus: 1, memoryGb: 2, saturatedFraction: 0 };
+
+  it('picks the smallest size covering CPU and memory needs', () => {
+    expect(pickRunnerSize(current, idle)).toEqual({ vcpus: 2, exceedsLargest: false });
+    expect(pickRunnerSize(current, { ...idle, vcpus: 4.1 })).toEqual({ vcpus: 8, exceedsLargest: false });
+    // 20 GB needs a 8 vCPU runner at 4 GB per vCPU, even with little CPU
+    expect(pickRunnerSize(current, { ...idle, memoryGb: 20 })).toEqual({ vcpus: 8, exceedsLargest: false });
+  });
+
+  it('never goes below the current size when memory usage is unknown', () => {
+    expect(pickRunnerSize(current, { ...idle, memoryGb: null })).toEqual({ vcpus: 8, exceedsLargest: false });
+    expect(pickRunnerSize(current, { ...idle, vcpus: 10, memoryGb: null })).toEqual({ vcpus: 16, exceedsLargest: false });
+  });
+
+  it('moves a saturated job at least one size up', () => {
+    expect(pickRunnerSize(current, { ...idle, saturatedFraction: 0.25 })).toEqual({ vcpus: 16, exceedsLargest: false });
+    expect(pickRunnerSize(current, { ...idle, saturatedFraction: 0.24 })).toEqual({ vcpus: 2, exceedsLargest: false });
+  });
+
+  it('reports needs beyond the largest size instead of capping silently', () => {
+    expect(pickRunnerSize(current, { ...idle, vcpus: 40 })).toEqual({ vcpus: 32, exceedsLargest: true });
+    expect(pickRunnerSize(current, { ...idle, memoryGb: 200 })).toEqual({ vcpus: 32, exceedsLargest: true });
+    expect(pickRunnerSize(spec('blacksmith-32vcpu-ubuntu-2204'), { ...idle, vcpus: 30, saturatedFraction: 0.5 })).toEqual({
+      vcpus: 32,
+      exceedsLargest: true,
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import {
+  collectPages,
+  decodeCursor,
+  encodeCursor,
+  paginate,
+  toPage,
+  type Page,
+  type PageRequest,
+} from '../src/utils/pagination.js';
+
+const FIRST_PAGE: PageRequest = { page: 1, perPage: 2, cursor: null };
+
+describe('toPage', () => {
+  it('assumes a full bare-array page has more after it', () => {
+    const page = toPage<number>([1, 2], 'data', FIRST_PAGE);
+
+    expect(page.items).toEqual([1, 2]);
+    expect(page.hasMore).toBe(true);
+    expect(page.totalCount).toBeNull();
+    expect(decodeCursor(page.cursor ?? '')).toEqual({ page: 2, cursor: null });
+  });
+
+  it('ends on a short page', () => {
+    const page = toPage<number>([1], 'data', FIRST_PAGE);
+
+    expect(page.hasMore).toBe(false);
+    expect(page.cursor).toBeNull();
+  });
+
+  it('reads wrapped items and uses the total count', () => {
+    const page = toPage<number>({ data: [3, 4], total_count: 4 }, 'data', { page: 2, perPage: 2, cursor: null });
+
+    expect(page.items).toEqual([3, 4]);
+    expect(page.totalCount).toBe(4);
+    expect(page.hasMore).toBe(false);
+  });
+
+  it('keeps the server cursor for the next page', () => {
+    const page = toPage<number>({ data: [1, 2], next_cursor: 'abc' }, 'data', FIRST_PAGE);
+
+    expect(decodeCursor(page.cursor ?? '')).toEqual({ page: 2, cursor: 'abc' });
+  });
+
+  it('prefers an explicit has_more flag', () => {
+    const page = toPage<number>({ data: [1, 2], has_more: false, total_count: 10 }, 'data', FIRST_PAGE);
+
+    expect(page.hasMore).toBe(false);
+  });
+
+  it('never has more after an empty page', () => {
+    const page = toPage<number>({ data: [], has_more: true }, 'data', FIRST_PAGE);
+
+    expect(page.hasMore).toBe(false);
+    expect(page.cursor).toBeNull();
+  });
+});
+
+describe('decodeCursor', () => {
+  it('round-trips encoded cursors', () => {
+    expect(decodeCursor(encodeCursor(3, 'xyz'))).toEqual({ page: 3, cursor: 'xyz' });
+  });
+
+  it('rejects cursors it did not issue', () => {
+    expect(decodeCursor('not-a-cursor')).toBeNull();
+    expect(decodeCursor(Buffer.from(JSON.stringify({ p: 0 })).toString('base64url'))).toBeNull();
+  });
+});
+
+describe('paginate', () => {
+  /**
+   * Serve numbered items from an in-memory list, two per page.
+   */
+  function pagesOf(items: number[]): { fetchPage: (request: PageRequest) => Promise<Page<number>>; requests: PageRequest[] } {
+    const requests: PageRequest[] = [];
+    return {
+      requests,
+      fetchPage: async (request) => {
+        requests.push(request);
+        const start = (request.page - 1) * request.perPage;
+        return toPage(items.slice(start, start + request.perPage), 'data', request);
+      },
+    };
+  }
+
+  it('streams pages until the last one', async () => {
+    const { fetchPage, requests } = pagesOf([1, 2, 3, 4, 5]);
+
+    const { items, complete } = await collectPages(paginate(fetchPage, { perPage: 2 }));
+
+    expect(items).toEqual([1, 2, 3, 4, 5]);
+    expect(complete).toBe(true);
+    expect(requests.map((r) => r.page)).toEqual([1, 2, 3]);
+  });
+
+  it('resumes from a cursor', async () => {
+    const { fetchPage } = pagesOf([1, 2, 3, 4, 5]);
+
+    const { items } = await collectPages(paginate(fetchPage, { perPage: 2, cursor: encodeCursor(2) }));
+
+    expect(items).toEqual([3, 4, 5]);
+  });
+
+  it('stops when an endpoint ignores the page number', async () => {
+    let calls = 0;
+    const fetchPage = async (request: PageRequest) => {
+      calls++;
+      return toPage<number>([1, 2], 'data', request);
+    };
+
+    const { items } = await collectPages(paginate(fetchPage, { perPage: 2, key: String }));
+
+    expect(items).toEqual([1, 2]);
+    expect(calls).toBe(2);
+  });
+
+  it('stops after maxPages and reports the listing incomplete', async () => {
+    const { fetchPage } = pagesOf([1, 2, 3, 4, 5]);
+
+    const { items, complete } = await collectPages(paginate(fetchPage, { perPage: 2, maxPages: 1 }));
+
+    expect(items).toEqual([1, 2]);
+    expect(complete).toBe(false);
+  });
+
+  it('stops once the limit is reached', async () => {
+    const { fetchPage, requests } = pagesOf([1, 2, 3, 4, 5]);
+
+    const { items, complete } = await collectPages(paginate(fetchPage, { perPage: 2 }), 3);
+
+    expect(items).toEqual([1, 2, 3]);
+    expect(complete).toBe(false);
+    expect(requests).toHaveLength(2);
+  });
+
+  it('stops when aborted', async () => {
+    const { fetchPage, requests } = pagesOf([1, 2, 3, 4, 5]);
+    const controller = new AbortController();
+    controller.abort();
+
+    const { items } = await collectPages(paginate(fetchPage, { perPage: 2, signal: controller.signal }));
+
+    expect(items).toEqual([]);
+    expect(requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,98 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConfigurationError } from '../src/utils/errors.js';
+import { loadPriceTableFromEnv, PriceTable } from '../src/utils/pricing.js';
+
+describe('PriceTable', () => {
+  it('falls back to list prices, cheaper on arm than x64', () => {
+    const table = new PriceTable();
+
+    expect(table.priceFor(['blacksmith-4vcpu-ubuntu-2204'])).toEqual({
+      label: 'blacksmith-4vcpu-ubuntu-2204',
+      per_minute: 0.008,
+      source: 'list_price',
+    });
+    expect(table.priceFor(['blacksmith-4vcpu-ubuntu-2204-arm'])).toEqual({
+      label: 'blacksmith-4vcpu-ubuntu-2204-arm',
+      per_minute: 0.005,
+      source: 'list_price',
+    });
+  });
+
+  it('has no price for runners that are not Blacksmith runners', () => {
+    expect(new PriceTable().priceFor(['ubuntu-latest'])).toBeNull();
+    expect(new PriceTable().priceFor(undefined)).toBeNull();
+  });
+
+  it('prefers exact labels over patterns, and patterns in file order', () => {
+    const table = new PriceTable({
+      'blacksmith-*-arm': 0.004,
+      'blacksmith-*': 0.01,
+      'Blacksmith-2vcpu-ubuntu-2204-arm': 0.001,
+    });
+
+    expect(table.size).toBe(3);
+    expect(table.priceFor(['blacksmith-2vcpu-ubuntu-2204-arm'])?.per_minute).toBe(0.001);
+    expect(table.priceFor(['blacksmith-8vcpu-ubuntu-2204-arm'])?.per_minute).toBe(0.004);
+    expect(table.priceFor(['blacksmith-8vcpu-ubuntu-2204'])).toEqual({
+      label: 'blacksmith-8vcpu-ubuntu-2204',
+      per_minute: 0.01,
+      source: 'price_table',
+    });
+  });
+
+  it('treats pattern characters other than * literally', () => {
+    const table = new PriceTable({ 'runner.(large)*': 0.02 });
+
+    expect(table.priceFor(['runner.(large)-x'])?.per_minute).toBe(0.02);
+    expect(table.priceFor(['runnerX(large)-x'])).toBeNull();
+  });
+});
+
+describe('loadPriceTableFromEnv', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'blacksmith-prices-'));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('uses list prices only without a price file', () => {
+    vi.stubEnv('BLACKSMITH_PRICES_FILE', '');
+    const table = loadPriceTableFromEnv();
+
+    expect(table.size).toBe(0);
+    expect(table.source).toBeNull();
+  });
+
+  it('loads overrides from the price file', () => {
+    const file = join(dir, 'prices.json');
+    writeFileSync(file, JSON.stringify({ prices: { 'blacksmith-4vcpu-ubuntu-2204': 0.006 } }));
+    vi.stubEnv('BLACKSMITH_PRICES_FILE', file);
+
+    const table = loadPriceTableFromEnv();
+
+    expect(table.source).toBe(file);
+    expect(table.priceFor(['blacksmith-4vcpu-ubuntu-2204'])?.per_minute).toBe(0.006);
+    expect(table.priceFor(['blacksmith-2vcpu-ubuntu-2204'])?.source).toBe('list_price');
+  });
+
+  it('rejects missing, malformed and negative price files', () => {
+    vi.stubEnv('BLACKSMITH_PRICES_FILE', join(dir, 'missing.json'));
+    expect(() => loadPriceTableFromEnv()).toThrow(ConfigurationError);
+
+    const file = join(dir, 'prices.json');
+    vi.stubEnv('BLACKSMITH_PRICES_FILE', file);
+    writeFileSync(file, '{ not json');
+    expect(() => loadPriceTableFromEnv()).toThrow(ConfigurationError);
+
+    writeFileSync(file, JSON.stringify({ prices: { 'blacksmith-*': -1 } }));
+    expect(() => loadPriceTableFromEnv()).toThrow(ConfigurationError);
+  });
+});
@@ -0,0 +1,116 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  exportQuarantine,
+  isExpired,
+  isSameTest,
+  loadQuarantine,
+  type QuarantineEntry,
+} from '../src/utils/quarantine.js';
+
+/**
+ * Build an entry with defaults for the fields a test doesn't care about.
+ */
+function entry(name: string, suite: string | null = null): QuarantineEntry {
+  return {
+    org: 'acme',
+    suite,
+    name,
+    job_name: null,
+    repository: null,
+    workflow_name: null,
+    owner: 'ci-team',
+    reason: 'flaky',
+    added_at: '2026-10-01T00:00:00.000Z',
+    expires_at: null,
+  };
+}
+
+describe('exportQuarantine', () => {
+  describe('jest/vitest testNamePattern', () => {
+    const pattern = new RegExp(exportQuarantine([entry('logs in'), entry('saves (draft)')], 'jest').content);
+
+    it('excludes quarantined tests by name, inside or outside describe blocks', () => {
+      expect(pattern.test('logs in')).toBe(false);
+      expect(pattern.test('Auth logs in')).toBe(false);
+      expect(pattern.test('Editor saves (draft)')).toBe(false);
+    });
+
+    it('keeps tests whose name merely ends with a quarantined name', () => {
+      expect(pattern.test('Auth blogs in')).toBe(true);
+      expect(pattern.test('logs in twice')).toBe(true);
+      expect(pattern.test('Editor autosaves (draft)')).toBe(true);
+    });
+
+    it('shell-quotes the pattern in the usage line', () => {
+      const { usage } = exportQuarantine([entry("doesn't crash")], 'vitest');
+
+      expect(usage).toBe(`npx vitest --testNamePattern='^(?!(?:.* )?(?:doesn'\\''t crash)$).*$'`);
+    });
+
+    it('matches everything when nothing is quarantined', () => {
+      expect(exportQuarantine([], 'jest').content).toBe('.*');
+    });
+  });
+
+  it('converts dotted pytest class names to node IDs and quotes them', () => {
+    const { content, usage } = exportQuarantine(
+      [
+        entry('test_login[admin user]', 'tests.api.test_users.TestLogin'),
+        entry('test_ok', 'tests/test_misc.py'),
+      ],
+      'pytest'
+    );
+
+    expect(content).toBe(
+      '--deselect tests/api/test_users.py::TestLogin::test_login[admin user]\n' +
+        '--deselect tests/test_misc.py::test_ok'
+    );
+    expect(usage).toBe(
+      "pytest --deselect 'tests/api/test_users.py::TestLogin::test_login[admin user]' " +
+        "--deselect 'tests/test_misc.py::test_ok'"
+    );
+  });
+
+  it('lists JUnit tests as Class#method', () => {
+    const { content } = exportQuarantine([entry('testSave', 'com.acme.EditorTest'), entry('testAny')], 'junit');
+
+    expect(content).toBe('com.acme.EditorTest#testSave\ntestAny');
+  });
+});
+
+describe('quarantine entries', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'blacksmith-quarantine-'));
+    process.env['BLACKSMITH_QUARANTINE_FILE'] = join(dir, 'quarantine.json');
+  });
+
+  afterEach(() => {
+    delete process.env['BLACKSMITH_QUARANTINE_FILE'];
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('matches a null suite against any suite', () => {
+    expect(isSameTest(entry('a'), { suite: 'Suite', name: 'a' })).toBe(true);
+    expect(isSameTest(entry('a', 'Suite'), { suite: 'Other', name: 'a' })).toBe(false);
+  });
+
+  it('expires entries at their expiry date', () => {
+    const expiring = { ...entry('a'), expires_at: '2026-10-10T00:00:00.000Z' };
+
+    expect(isExpired(expiring, new Date('2026-10-09T23:59:59Z'))).toBe(false);
+    expect(isExpired(expiring, new Date('2026-10-10T00:00:00Z'))).toBe(true);
+    expect(isExpired(entry('a'))).toBe(false);
+  });
+
+  it('loads files written before entries recorded a repository and workflow', () => {
+    const { repository: _repository, workflow_name: _workflow, ...legacy } = entry('a');
+    writeFileSync(join(dir, 'quarantine.json'), JSON.stringify({ entries: [legacy] }));
+
+    expect(loadQuarantine()).toEqual([entry('a')]);
+  });
+});
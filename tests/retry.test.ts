@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getRetryDelay, isRetryableStatus, parseRetryAfter, sleep } from '../src/utils/retry.js';
+import { CancelledError } from '../src/utils/errors.js';
+
+const OPTIONS = { maxRetries: 3, baseDelayMs: 500, maxDelayMs: 30_000 };
+
+describe('retry policy', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('retries rate limits and gateway errors only', () => {
+    expect([408, 429, 500, 502, 503, 504].every(isRetryableStatus)).toBe(true);
+    expect([400, 401, 403, 404, 501].some(isRetryableStatus)).toBe(false);
+  });
+
+  it('parses Retry-After seconds and HTTP dates', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-19T12:00:00Z'));
+
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter('Mon, 19 Oct 2026 12:00:05 GMT')).toBe(5000);
+    expect(parseRetryAfter('Mon, 19 Oct 2026 11:00:00 GMT')).toBe(0);
+    expect(parseRetryAfter('soon')).toBeNull();
+    expect(parseRetryAfter(null)).toBeNull();
+  });
+
+  it('backs off exponentially with full jitter, up to the maximum delay', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+
+    expect(getRetryDelay(0, OPTIONS)).toBe(500);
+    expect(getRetryDelay(2, OPTIONS)).toBe(2000);
+    expect(getRetryDelay(10, OPTIONS)).toBe(30_000);
+  });
+
+  it('honors Retry-After over the computed delay, capped at the maximum', () => {
+    expect(getRetryDelay(0, OPTIONS, '10')).toBe(10_000);
+    expect(getRetryDelay(0, OPTIONS, '3600')).toBe(30_000);
+  });
+
+  it('rejects a sleep as soon as its signal aborts', async () => {
+    const controller = new AbortController();
+    const started = Date.now();
+    const slept = sleep(10_000, controller.signal);
+    controller.abort();
+
+    await expect(slept).rejects.toBeInstanceOf(CancelledError);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it('rejects a sleep whose signal already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(sleep(10, controller.signal)).rejects.toBeInstanceOf(CancelledError);
+  });
+});
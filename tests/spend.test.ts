@@ -0,0 +1,127 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { BlacksmithClient } from '../src/client.js';
+import { buildSpendForecast } from '../src/tools/spend.js';
+import { meanAndStdev, projectTotal } from '../src/utils/billing.js';
+
+interface Fixture {
+  now: string;
+  period: [string, string];
+  billable: number;
+  free: number;
+  invoice?: number;
+  daily: Record<string, number>;
+}
+
+/**
+ * Stub the invoice, usage and daily job endpoints the forecast reads.
+ */
+function forecastFor(fixture: Fixture) {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date(fixture.now));
+  const client = {
+    getInvoiceAmount: async () => ({
+      amount: fixture.invoice ?? 0,
+      currency: 'USD',
+      period_start: fixture.period[0],
+      period_end: fixture.period[1],
+    }),
+    getUsageSummary: async () => ({ billable_minutes: fixture.billable, free_minutes: fixture.free }),
+    getJobsDaily: async () => Object.entries(fixture.daily).map(([date, minutes]) => ({ date, minutes })),
+  } as unknown as BlacksmithClient;
+  return buildSpendForecast(client);
+}
+
+/**
+ * Daily activity for each day in [start, end).
+ */
+function days(start: string, end: string, value: (i: number) => number): Record<string, number> {
+  const daily: Record<string, number> = {};
+  for (let time = Date.parse(start), i = 0; time < Date.parse(end); time += 24 * 60 * 60 * 1000, i++) {
+    daily[new Date(time).toISOString().slice(0, 10)] = value(i);
+  }
+  return daily;
+}
+
+describe('buildSpendForecast', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('projects the rest of a short month with an 80% range from daily variation', async () => {
+    // 100 minutes a day on average, alternating 50 and 150
+    const forecast = await forecastFor({
+      now: '2026-02-15T00:00:00Z',
+      period: ['2026-02-01T00:00:00Z', '2026-03-01T00:00:00Z'],
+      billable: 1400,
+      free: 3000,
+      daily: days('2026-01-01', '2026-02-15', (i) => (i % 2 === 0 ? 50 : 150)),
+    });
+
+    const spread = 1.2816 * meanAndStdev(Array.from({ length: 14 }, (_, i) => (i % 2 === 0 ? 50 : 150))).stdev * Math.sqrt(14);
+    expect(forecast.period).toMatchObject({ elapsed_days: 14, remaining_days: 14 });
+    expect(forecast.forecast).toMatchObject({
+      method: 'daily_history',
+      confidence: 0.8,
+      daily_billable_minutes: { mean: 100 },
+      billable_minutes: { expected: 2800, low: Math.round(2800 - spread), high: Math.round(2800 + spread) },
+      price_source: 'list_price',
+    });
+    // Still within the free minutes at the expected rate
+    expect(forecast.forecast.invoice_dollars.expected).toBe(0);
+    expect(forecast.free_minutes_exhausted).toEqual({ status: 'not_expected_this_period', date: null });
+    expect(forecast.previous_period?.estimated_billable_minutes).toBe(3050);
+  });
+
+  it('projects nothing from a zero-spend history', async () => {
+    const forecast = await forecastFor({
+      now: '2026-03-10T12:00:00Z',
+      period: ['2026-03-01T00:00:00Z', '2026-04-01T00:00:00Z'],
+      billable: 0,
+      free: 3000,
+      daily: days('2026-02-01', '2026-03-10', () => 0),
+    });
+
+    expect(forecast.forecast.method).toBe('linear');
+    expect(forecast.forecast.billable_minutes).toEqual({ expected: 0, low: 0, high: 0 });
+    expect(forecast.forecast.invoice_dollars).toEqual({ expected: 0, low: 0, high: 0 });
+    expect(forecast.free_minutes_exhausted.status).toBe('not_expected_this_period');
+    expect(forecast.previous_period).toBeNull();
+    expect(forecast.warnings).toHaveLength(1);
+  });
+
+  it('never projects below the minutes already billed from a single day of history', async () => {
+    const forecast = await forecastFor({
+      now: '2026-03-10T12:00:00Z',
+      period: ['2026-03-01T00:00:00Z', '2026-04-01T00:00:00Z'],
+      billable: 140,
+      free: 3000,
+      daily: { '2026-03-09': 140 },
+    });
+
+    const additional = projectTotal(meanAndStdev([140, ...Array<number>(13).fill(0)]), 21.5);
+    expect(forecast.forecast.daily_billable_minutes.mean).toBe(10);
+    expect(forecast.forecast.billable_minutes).toEqual({
+      expected: Math.round(140 + additional.expected),
+      low: 140,
+      high: Math.round(140 + additional.high),
+    });
+    expect(forecast.previous_period).toBeNull();
+  });
+
+  it('prices overage at the invoice rate and dates when free minutes ran out', async () => {
+    const forecast = await forecastFor({
+      now: '2026-03-11T00:00:00Z',
+      period: ['2026-03-01T00:00:00Z', '2026-04-01T00:00:00Z'],
+      billable: 1000,
+      free: 500,
+      invoice: 5,
+      daily: days('2026-02-01', '2026-03-11', () => 100),
+    });
+
+    expect(forecast.forecast.price_source).toBe('invoice');
+    expect(forecast.forecast.price_per_minute).toBe(0.01);
+    expect(forecast.free_minutes_exhausted).toEqual({ status: 'already_exhausted', date: '2026-03-05' });
+    // 21 more days of 100 minutes at $0.01 a minute
+    expect(forecast.forecast.invoice_dollars.expected).toBe(26);
+  });
+});